@@ -0,0 +1,42 @@
+import { TypeConverter } from "../core/types";
+
+const converters = new Map<string, TypeConverter>();
+
+/**
+ * Registers a converter applied to every value it recognizes when models are written:
+ * saved and updated data, query values and `toJSON()`. Properties declared with
+ * `@Transform(name)` are also converted back when documents are loaded.
+ * Registering a name again replaces the previous converter.
+ * @param name The name referenced by `@Transform(name)`.
+ * @param converter The `test`, `toFirestore` and `fromFirestore` functions.
+ */
+export function registerConverter(
+  name: string,
+  converter: TypeConverter
+): void {
+  if (!name || typeof name !== "string") {
+    throw new Error(
+      "Invalid name provided to registerConverter. Expected a non-empty string."
+    );
+  }
+  converters.set(name, converter);
+}
+
+/**
+ * Obtains a registered converter.
+ * @throws Error If no converter is registered under the name.
+ */
+export function getConverter(name: string): TypeConverter {
+  const converter = converters.get(name);
+  if (!converter) {
+    throw new Error(
+      `No converter registered under '${name}'. Call registerConverter('${name}', converter) first.`
+    );
+  }
+  return converter;
+}
+
+/** Obtains every registered converter, in registration order. */
+export function getConverters(): TypeConverter[] {
+  return [...converters.values()];
+}
@@ -0,0 +1,31 @@
+let pageTokenSecret: string | null = null;
+
+/**
+ * Defines the secret used to sign the page tokens returned by `Model.paginate()`.
+ * Tokens signed with one secret are rejected by processes configured with another,
+ * so every instance serving the same API must share it.
+ * @param secret A non-empty, high-entropy string (e.g. loaded from your secret manager).
+ */
+export function setPageTokenSecret(secret: string): void {
+  if (!secret || typeof secret !== "string") {
+    throw new Error(
+      "Invalid secret provided to setPageTokenSecret. Expected a non-empty string."
+    );
+  }
+  pageTokenSecret = secret;
+}
+
+/**
+ * Obtains the configured page token secret.
+ * @throws Error If setPageTokenSecret was not called.
+ * @returns The secret used to sign and verify page tokens.
+ */
+export function getPageTokenSecret(): string {
+  if (!pageTokenSecret) {
+    throw new Error(
+      "Page token secret has not been set. Call setPageTokenSecret(secret) once during your " +
+        "application initialization, or pass `secret` to paginate()."
+    );
+  }
+  return pageTokenSecret;
+}
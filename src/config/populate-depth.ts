@@ -0,0 +1,24 @@
+let maxPopulateDepth = 5;
+
+/**
+ * Defines how many relation hops `populate` may follow from the loaded documents,
+ * for nested paths (`'department.head.manager'`) and eager relations alike.
+ * Can be overridden per call with `maxPopulateDepth`.
+ * @param depth A positive integer. Defaults to 5.
+ */
+export function setMaxPopulateDepth(depth: number): void {
+  if (!Number.isInteger(depth) || depth < 1) {
+    throw new Error(
+      `Invalid depth provided to setMaxPopulateDepth. Expected a positive integer. Received: ${depth}`
+    );
+  }
+  maxPopulateDepth = depth;
+}
+
+/**
+ * Obtains the configured maximum populate depth.
+ * @returns The number of relation hops `populate` may follow.
+ */
+export function getMaxPopulateDepth(): number {
+  return maxPopulateDepth;
+}
@@ -1,4 +1,7 @@
 import {
+  AggregateField,
+  AggregateSpec,
+  AggregateSpecData,
   CollectionReference,
   DocumentData,
   DocumentReference,
@@ -18,30 +21,109 @@ import {
   WriteResult,
 } from "firebase-admin/firestore";
 import "reflect-metadata";
-import { ZodError, ZodSchema } from "zod";
+import { RefinementCtx, ZodError, ZodIssue, ZodSchema, ZodTypeAny } from "zod";
 import { getFirestoreInstance } from "../config/firestore-instance";
+import { deleteMany, insertMany, updateMany } from "./bulk";
+import { deleteChildrenCounted, prepareCascade } from "./cascade";
+import {
+  applyUpdate,
+  cloneData,
+  diffData,
+  expandPaths,
+  FieldChange,
+  flattenData,
+  isEqualValue,
+  isPlainObject,
+  isSamePathOrNested,
+  joinPath,
+  pickPaths,
+  readPath,
+  splitPath,
+  toUpdateArgs,
+} from "./change-tracking";
 import { transactionContext } from "./context";
 import {
-  BOOLEAN_KEY,
   getCollectionName,
+  getDateFieldMetadata,
+  getEmbeddedMetadata,
+  getFieldDefaults,
+  getHasManyMetadata,
   getRelationMetadata,
-  SUBCOL_DOC_KEY,
+  getSoftDeleteMetadata,
+  getVersionField,
+  getVirtualMetadata,
   SUBCOL_KEY,
   SUBMODEL_KEY,
   TIMESTAMP_KEY,
 } from "./decorators";
-import { NotFoundError, ValidationError } from "./errors";
+import {
+  findEmbeddedField,
+  findEmbeddedMetadata,
+  hydrateEmbedded,
+  serializeEmbedded,
+} from "./embedded";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+import { fromStoredData, toStoredData, toStoredPath } from "./field-names";
+import { findHasManyMetadata, hasManyQuery } from "./has-many";
+import {
+  getSchemaVersion,
+  migrateData,
+  SCHEMA_VERSION_FIELD,
+} from "./migrations";
+import { paginate } from "./pagination";
+import {
+  createPopulateContext,
+  PopulateContext,
+  populateMany,
+  populateSubcollections,
+  resolvePopulateNodes,
+} from "./population";
+import { QueryBuilder } from "./query-builder";
+import {
+  fromFirestoreData,
+  fromFirestoreValue,
+  toFirestoreValue,
+  toQueryValue,
+} from "./transformers";
+import {
+  commitWithUniqueWrites,
+  prepareUniqueRelease,
+  prepareUniqueSave,
+  prepareUniqueUpdate,
+  UniqueWrites,
+} from "./unique";
+import {
+  applySoftDeleteScope,
+  isExcludedBySoftDeleteScope,
+} from "./soft-delete";
 import {
   BaseModelConstructor,
   BaseModelInterface,
+  BulkWriteOptions,
+  BulkWriteReport,
+  DeleteOptions,
+  DeleteResult,
   FindAllResult,
   FindOptions,
+  NumericField,
+  PaginateOptions,
+  PaginateResult,
+  PopulateOption,
+  PopulatePath,
   RelationMetadata,
-  SubCollectionDocMetadata,
+  SoftDeleteScope,
+  StreamOptions,
   SubCollectionMetadata,
   SubModelMetadata,
+  WatchChanges,
+  WatchOptions,
 } from "./types";
-import { getValidationSchema } from "./validation";
+import {
+  getModelRulesSchema,
+  getUpdateIssues,
+  getValidationSchema,
+} from "./validation";
+import { watchDocument, watchQuery } from "./watch";
 
 function isFirestoreTransaction(obj: any): obj is FirestoreTransaction {
   return (
@@ -58,11 +140,153 @@ function isWriteBatch(obj: any): obj is WriteBatch {
   );
 }
 
+/**
+ * Rebuilds a lightweight (data-less) parent chain for a document found through a
+ * collection group query, following the `@SubCollectionModel` hierarchy.
+ * Returns `null` when the document path does not match the declared hierarchy
+ * (e.g. a same-named subcollection under another collection).
+ */
+function rebuildParent(
+  parentModel: BaseModelConstructor,
+  parentRef: DocumentReference
+): BaseModel | null {
+  const meta = Reflect.getOwnMetadata(SUBMODEL_KEY, parentModel) as
+    | SubModelMetadata
+    | undefined;
+
+  let parent: BaseModel;
+  if (meta) {
+    const grandParentRef = parentRef.parent.parent;
+    if (parentRef.parent.id !== meta.subPath || !grandParentRef) return null;
+    const grandParent = rebuildParent(meta.parentModel(), grandParentRef);
+    if (!grandParent) return null;
+    parent = new parentModel({}, grandParent as any) as any;
+    parent.id = parentRef.id;
+  } else {
+    if (parentRef.parent.path !== parentModel._getCollectionName()) {
+      return null;
+    }
+    parent = new parentModel({}, parentRef.id) as any;
+  }
+  (parent as any).__docRef = parentRef;
+  return parent;
+}
+
+/**
+ * Truncates the `@DateField` timestamps of stored data, in `@Embedded` sub-documents
+ * too, to milliseconds: the precision of the `Date`s the instance holds. Otherwise a
+ * server timestamp (microseconds) would make the field look changed once loaded.
+ */
+function toDatePrecision(model: Function, data: DocumentData): DocumentData {
+  const result: DocumentData = { ...data };
+  for (const { propertyName } of getDateFieldMetadata(model)) {
+    const value = result[propertyName];
+    if (value instanceof Timestamp) {
+      result[propertyName] = Timestamp.fromMillis(value.toMillis());
+    }
+  }
+  for (const meta of getEmbeddedMetadata(model)) {
+    const value = result[meta.propertyName];
+    const convert = (item: unknown) =>
+      isPlainObject(item) ? toDatePrecision(meta.embeddedClass(), item) : item;
+    if (!meta.array) {
+      if (value != null) result[meta.propertyName] = convert(value);
+    } else if (Array.isArray(value)) {
+      result[meta.propertyName] = value.map(convert);
+    }
+  }
+  return result;
+}
+
+/**
+ * @internal The persistence steps of an instance that run outside `BaseModel`: the
+ * bulk operations write many documents through them, and the unique constraints and
+ * cascades read or invalidate the state they track.
+ */
+export interface ModelInternals {
+  /** Applies field defaults, runs `beforeSave` and validates; returns the data to write. */
+  prepareSave(): Promise<DocumentData>;
+  /**
+   * Records `data`, just created, as the persisted state (with its version, on
+   * versioned models) and reads back its server timestamps.
+   */
+  completeSave(data: DocumentData): Promise<void>;
+  /** Cleans an `update()` payload and stamps its `onUpdate` dates. */
+  prepareUpdate(updateData: UpdateData<any>): UpdateData<any>;
+  /** Validates a cleaned payload as `update()` does. */
+  validateUpdate(cleanUpdateData: UpdateData<any>): void;
+  /**
+   * Applies a cleaned payload, just written, to the instance and its persisted state,
+   * incrementing the version of versioned models, and reads back its server timestamps.
+   */
+  completeUpdate(cleanUpdateData: UpdateData<any>): Promise<void>;
+  /** Sets a field written on its own, without touching other pending changes. */
+  setTrackedField(field: string, value: unknown): void;
+  /** Invalidates the local state of a removed document. */
+  markDeleted(): void;
+  /** The persisted state; `undefined` for instances never loaded nor saved. */
+  loadedState(): DocumentData | undefined;
+  /** The current values, in the stored shape. */
+  currentState(): DocumentData;
+}
+
+let internalsOf: (instance: BaseModel) => ModelInternals;
+
+/** @internal The `ModelInternals` of an instance. */
+export function modelInternals(instance: BaseModel): ModelInternals {
+  return internalsOf(instance);
+}
+
 export abstract class BaseModel implements BaseModelInterface {
   public id?: string;
   private __parent?: BaseModel;
   private __docRef?: DocumentReference;
 
+  static {
+    internalsOf = (instance) => ({
+      prepareSave: () => instance._prepareSave(),
+      completeSave: async (data) => {
+        const versionField = getVersionField(instance._getConstructor());
+        if (versionField && data[versionField] !== undefined) {
+          (instance as any)[versionField] = data[versionField];
+        }
+        instance._takeSnapshot();
+        await instance._resolveServerDates(data);
+      },
+      prepareUpdate: (updateData) => {
+        const cleanUpdateData = instance._cleanUpdateData(updateData);
+        instance._stampUpdate(cleanUpdateData);
+        return cleanUpdateData;
+      },
+      validateUpdate: (cleanUpdateData) =>
+        instance._validateUpdate(cleanUpdateData),
+      completeUpdate: async (cleanUpdateData) => {
+        const constructor = instance._getConstructor();
+        const relationProperties = new Set(
+          constructor._getRelationMetadata().map((r) => r.propertyName)
+        );
+        instance._updateLocalState(cleanUpdateData, relationProperties);
+        const versionField = getVersionField(constructor);
+        if (versionField) {
+          const version = ((instance as any)[versionField] ?? 0) + 1;
+          (instance as any)[versionField] = version;
+          instance._trackUpdate({
+            ...cleanUpdateData,
+            [versionField]: version,
+          });
+        } else {
+          instance._trackUpdate(cleanUpdateData);
+        }
+        await instance._resolveServerDates(cleanUpdateData);
+      },
+      setTrackedField: (field, value) =>
+        instance._setTrackedField(field, value),
+      markDeleted: () => instance._markDeleted(),
+      loadedState: () => instance._loadedState,
+      currentState: () => instance._toFirestore(true),
+    });
+  }
+
   private static _builtSchema?: ZodSchema<any>;
   static get schema(): ZodSchema<any> {
     if (!this._builtSchema) {
@@ -76,6 +300,13 @@ export abstract class BaseModel implements BaseModelInterface {
     [key: string]: BaseModel | BaseModel[] | null;
   } = {};
 
+  // persisted state as last loaded/written, used for dirty tracking
+  protected _loadedState?: DocumentData;
+
+  // local values of the fields last written with a FieldValue (e.g. increment()),
+  // which are not refreshed on the instance: unchanged, they are not reported as dirty
+  private _staleFields: Record<string, unknown> = {};
+
   constructor(data: Record<string, any>, idOrParent?: string | BaseModel) {
     if (idOrParent instanceof BaseModel) {
       this.__parent = idOrParent;
@@ -85,7 +316,16 @@ export abstract class BaseModel implements BaseModelInterface {
     } else if (typeof idOrParent === "string") {
       this.id = idOrParent;
     }
+    const readonly = getVirtualMetadata(this.constructor).filter(
+      (v) => v.readonly
+    );
+    if (readonly.length > 0 && data) {
+      data = { ...data };
+      for (const { propertyName } of readonly) delete data[propertyName];
+    }
     Object.assign(this, data);
+    this._applyDefaults();
+    hydrateEmbedded(this.constructor, this);
   }
 
   get docRef(): DocumentReference {
@@ -127,7 +367,7 @@ export abstract class BaseModel implements BaseModelInterface {
     const Self = this;
     return {
       toFirestore(modelInstance: T): DocumentData {
-        return modelInstance._toFirestore(true);
+        return toStoredData(Self, modelInstance._toFirestore(true));
       },
       fromFirestore(snapshot: QueryDocumentSnapshot, options?: any): T {
         const instance = Self._fromFirestore(snapshot);
@@ -167,7 +407,10 @@ export abstract class BaseModel implements BaseModelInterface {
         meta.model()._getFirestoreConverter()
       ) as CollectionReference<Sub>;
 
-    const query = queryFn ? queryFn(subCollectionRef) : subCollectionRef;
+    const query = applySoftDeleteScope(
+      meta.model(),
+      queryFn ? queryFn(subCollectionRef) : subCollectionRef
+    );
 
     const snap = await query.get();
 
@@ -178,6 +421,69 @@ export abstract class BaseModel implements BaseModelInterface {
     });
   }
 
+  /**
+   * Counts the documents of a `@SubCollection` property on this document
+   * with an aggregate query, without loading them.
+   */
+  async countSubcollection<Sub extends BaseModel>(
+    this: this,
+    prop: keyof this,
+    queryFn?: (ref: CollectionReference<Sub>) => Query<Sub>
+  ): Promise<number> {
+    const ctor = this.constructor as Function;
+    const metas = (Reflect.getOwnMetadata(SUBCOL_KEY, ctor) ||
+      []) as SubCollectionMetadata[];
+    const meta = metas.find((m) => m.propertyName === prop);
+    if (!meta) {
+      throw new Error(
+        `@SubCollection not defined for property "${String(prop)}" on ${ctor.name}`
+      );
+    }
+
+    const subCollectionRef = this._getDocRef()
+      .collection(meta.name)
+      .withConverter(
+        meta.model()._getFirestoreConverter()
+      ) as CollectionReference<Sub>;
+
+    const query = applySoftDeleteScope(
+      meta.model(),
+      queryFn ? queryFn(subCollectionRef) : subCollectionRef
+    );
+    const snapshot = await query.count().get();
+    return snapshot.data().count;
+  }
+
+  /**
+   * Loads the documents of a `@HasMany` property: those whose foreign key references
+   * this document, with the decorator's ordering and limit. `queryFn` can refine the query.
+   */
+  async hasMany<Rel extends BaseModel>(
+    this: this,
+    prop: keyof this,
+    queryFn?: (query: Query<Rel>) => Query<Rel>
+  ): Promise<Rel[]> {
+    const meta = findHasManyMetadata(this.constructor, prop as string);
+    const snap = await hasManyQuery<Rel>(meta, this, queryFn).get();
+    return snap.docs.map((d) => d.data());
+  }
+
+  /**
+   * Counts the documents of a `@HasMany` property with an aggregate query,
+   * without loading them. The decorator's `limit` caps the count.
+   */
+  async countHasMany<Rel extends BaseModel>(
+    this: this,
+    prop: keyof this,
+    queryFn?: (query: Query<Rel>) => Query<Rel>
+  ): Promise<number> {
+    const meta = findHasManyMetadata(this.constructor, prop as string);
+    const snapshot = await hasManyQuery<Rel>(meta, this, queryFn)
+      .count()
+      .get();
+    return snapshot.data().count;
+  }
+
   static _fromFirestore<T extends typeof BaseModel>(
     this: T & BaseModelConstructor,
     snapshot: DocumentSnapshot | QueryDocumentSnapshot
@@ -185,12 +491,18 @@ export abstract class BaseModel implements BaseModelInterface {
     if (!snapshot.exists) {
       return null;
     }
-    const data = snapshot.data() || {};
+    const storedData = snapshot.data() || {};
+    // Documents stored at an older schema version are migrated lazily
+    const data = fromFirestoreData(
+      this,
+      fromStoredData(this, migrateData(this, storedData, snapshot.id))
+    );
     const relationMeta = this._getRelationMetadata();
     const instanceData: Partial<T> = {};
 
     // Separate data into relational and non-relational for the constructor
     for (const key in data) {
+      if (key === SCHEMA_VERSION_FIELD) continue;
       if (Object.prototype.hasOwnProperty.call(data, key)) {
         // Check if it's a relation field that holds a DocumentReference
         const isRelationRef = relationMeta.some(
@@ -209,11 +521,16 @@ export abstract class BaseModel implements BaseModelInterface {
       snapshot.id
     );
 
-    (instance as any).__docRef = snapshot.ref;
+    // Keep a converter-free ref: writes pass already-serialized data
+    (instance as any).__docRef = snapshot.ref.withConverter(null);
+    // The stored shape: a migrated instance is dirty until saved
+    (instance as any)._loadedState = cloneData(
+      toDatePrecision(this, fromStoredData(this, storedData))
+    );
 
     // Now, assign DocumentReferences for relations directly to the instance
     relationMeta.forEach((meta) => {
-      const refData = snapshot.get(meta.propertyName);
+      const refData = data[meta.propertyName];
       if (refData instanceof DocumentReference) {
         (instance as any)[meta.propertyName] = refData;
       }
@@ -232,6 +549,53 @@ export abstract class BaseModel implements BaseModelInterface {
     return instance;
   }
 
+  /**
+   * Populates relations and subcollections of freshly loaded instances,
+   * following `populate`/`populateSub` from the find options or, when absent,
+   * the eager relations (`lazy: false`) and every declared `@SubCollection`.
+   * Relations are read in batch across all instances (see `populate`).
+   * `context` is passed when populating documents reached through a relation.
+   */
+  static async _applyPopulation<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    instances: InstanceType<T>[],
+    options?: Pick<
+      FindOptions,
+      "populate" | "populateSub" | "maxPopulateDepth"
+    >,
+    context: PopulateContext = createPopulateContext(
+      instances,
+      options?.maxPopulateDepth
+    )
+  ): Promise<InstanceType<T>[]> {
+    if (instances.length === 0) return instances;
+    const relMeta = this._getRelationMetadata();
+    const eagerRels = relMeta
+      .filter((m) => !m.lazy)
+      .map((m) => ({ field: m.propertyName }));
+
+    if (options?.populate) {
+      await populateMany(
+        this,
+        instances,
+        resolvePopulateNodes(this, options.populate as PopulateOption[]),
+        context
+      );
+    } else if (eagerRels.length && context.depth < context.maxDepth) {
+      // Eager relations simply stop at the max depth
+      await populateMany(this, instances, eagerRels, context);
+    }
+
+    const subMetas: SubCollectionMetadata[] =
+      Reflect.getOwnMetadata(SUBCOL_KEY, this) || [];
+    const subsToPopulate = options?.populateSub?.length
+      ? options.populateSub
+      : subMetas.map((m) => m.propertyName);
+    await populateSubcollections(this, instances, subsToPopulate);
+
+    return instances;
+  }
+
   static async findById<T extends typeof BaseModel>(
     this: T & BaseModelConstructor,
     id: string,
@@ -240,39 +604,12 @@ export abstract class BaseModel implements BaseModelInterface {
     try {
       const docRef = this.getCollectionRef().doc(id);
       const docSnap = await docRef.get();
+      if (isExcludedBySoftDeleteScope(this, docSnap, options)) return null;
 
       const instance = this._fromFirestore(docSnap);
       if (!instance) return null;
 
-      const relMeta = this._getRelationMetadata();
-      const eagerRels = relMeta
-        .filter((m) => !m.lazy)
-        .map((m) => m.propertyName as keyof T);
-
-      if (options?.populate) {
-        await instance.populate(options.populate as any);
-      } else if (eagerRels.length) {
-        await instance.populate(eagerRels as any);
-      }
-
-      const subMetas: SubCollectionMetadata[] =
-        Reflect.getOwnMetadata(SUBCOL_KEY, this) || [];
-      const eagerSubs = subMetas.map((m) => m.propertyName as keyof T);
-      const subsToPopulate = options?.populateSub?.length
-        ? options.populateSub
-        : eagerSubs;
-
-      for (const propName of subsToPopulate || []) {
-        const meta = subMetas.find(
-          (m) => m.propertyName === (propName as string)
-        );
-        if (!meta) continue;
-
-        const items = await instance.subcollection(
-          propName as keyof InstanceType<T>
-        );
-        (instance as any)[propName] = items;
-      }
+      await this._applyPopulation([instance], options);
 
       return instance;
     } catch (error) {
@@ -292,9 +629,10 @@ export abstract class BaseModel implements BaseModelInterface {
       if (options?.queryFn) {
         query = options.queryFn(this.getCollectionRef());
       }
+      query = applySoftDeleteScope(this, query, options);
       if (options?.orderBy) {
         query = query.orderBy(
-          options.orderBy.field as string,
+          toStoredPath(this, options.orderBy.field as string | FieldPath),
           options.orderBy.direction
         );
       } else if (
@@ -312,39 +650,10 @@ export abstract class BaseModel implements BaseModelInterface {
       if (options?.limit) query = query.limit(options.limit);
 
       const snapshot = await query.get();
-      const results = [];
-
-      for (const doc of snapshot.docs) {
-        const instance = doc.data();
-        if (!instance) continue;
-
-        const relMeta = this._getRelationMetadata();
-        const eagerRels = relMeta
-          .filter((m) => !m.lazy)
-          .map((m) => m.propertyName as keyof T);
-
-        if (options?.populate) {
-          await instance.populate(options.populate as any);
-        } else if (eagerRels.length) {
-          await instance.populate(eagerRels as any);
-        }
-
-        const subMetas: SubCollectionMetadata[] =
-          Reflect.getOwnMetadata(SUBCOL_KEY, this) || [];
-        const eagerSubs = subMetas.map((m) => m.propertyName as keyof T);
-        const subsToPopulate = options?.populateSub?.length
-          ? options.populateSub
-          : eagerSubs;
-
-        if (subsToPopulate && subsToPopulate.length) {
-          for (const propName of subsToPopulate) {
-            const items = await instance.subcollection(propName as keyof T);
-            (instance as any)[propName] = items;
-          }
-        }
-
-        results.push(instance);
-      }
+      const results = snapshot.docs
+        .map((doc) => doc.data())
+        .filter((instance) => !!instance);
+      await this._applyPopulation(results, options);
 
       return {
         results,
@@ -364,7 +673,12 @@ export abstract class BaseModel implements BaseModelInterface {
   ): Promise<InstanceType<T>[]> {
     const result = await this.findAll({
       ...options,
-      queryFn: (ref) => ref.where(field as string | FieldPath, operator, value),
+      queryFn: (ref) =>
+        ref.where(
+          toStoredPath(this, field as string | FieldPath),
+          operator,
+          toQueryValue(this, field as string | FieldPath, operator, value)
+        ),
     });
     return result.results; // Return only array for simplicity/consistency
   }
@@ -372,13 +686,15 @@ export abstract class BaseModel implements BaseModelInterface {
   static async findOne<T extends typeof BaseModel>(
     this: T & BaseModelConstructor,
     queryFn: (ref: CollectionReference<T>) => Query<T>,
-    options?: Pick<FindOptions, "populate">
+    options?: Pick<FindOptions, "populate" | "withDeleted" | "onlyDeleted">
   ): Promise<InstanceType<T> | null> {
     const findOptions: FindOptions & {
       queryFn: (ref: CollectionReference<T>) => Query<T>;
     } = {
       queryFn: (ref) => queryFn(ref).limit(1),
       populate: options?.populate,
+      withDeleted: options?.withDeleted,
+      onlyDeleted: options?.onlyDeleted,
     };
     // Need to handle potential errors from findAll
     try {
@@ -390,6 +706,341 @@ export abstract class BaseModel implements BaseModelInterface {
     }
   }
 
+  /**
+   * Starts a fluent, type-checked query over the model's collection.
+   * Results are hydrated and populated the same way as `findAll`.
+   * @example
+   * ```typescript
+   * const users = await User.query().where("age", ">=", 18).orderBy("createdAt", "desc").limit(20).get();
+   * ```
+   */
+  static query<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    scope?: SoftDeleteScope
+  ): QueryBuilder<InstanceType<T>> {
+    return new QueryBuilder<InstanceType<T>>(
+      this,
+      applySoftDeleteScope(
+        this,
+        this.getCollectionRef() as unknown as Query<InstanceType<T>>,
+        scope
+      )
+    );
+  }
+
+  /**
+   * Fetches one page of results and returns opaque, signed tokens for the
+   * neighbouring pages, safe to hand to HTTP clients and accept back.
+   * Tokens are signed with the secret set through `setPageTokenSecret` (or `options.secret`).
+   * @example
+   * ```typescript
+   * const page = await User.paginate({ pageSize: 20, orderBy: { field: "createdAt", direction: "desc" } });
+   * const next = await User.paginate({ pageSize: 20, orderBy: { field: "createdAt", direction: "desc" }, pageToken: page.nextPageToken });
+   * ```
+   * @throws {InvalidPageTokenError} If the token is malformed, tampered with, or was issued for another ordering.
+   */
+  static async paginate<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    options: PaginateOptions<InstanceType<T>>
+  ): Promise<PaginateResult<InstanceType<T>>> {
+    return paginate<InstanceType<T>>(this, options);
+  }
+
+  /**
+   * Iterates over a (possibly very large) query, reading `batchSize` documents per
+   * round trip with cursors instead of loading everything into memory.
+   * Each instance is populated like in `findAll` (eager `@Relation({ lazy: false })`
+   * relations by default). Breaking out of the loop stops further reads.
+   * @example
+   * ```typescript
+   * for await (const user of User.stream({ queryFn: (ref) => ref.where("isActive", "==", true), batchSize: 500 })) {
+   *   await process(user);
+   * }
+   * ```
+   */
+  static async *stream<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    options: StreamOptions<InstanceType<T>> = {}
+  ): AsyncGenerator<InstanceType<T>, void, undefined> {
+    const batchSize = options.batchSize ?? 100;
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error(
+        `[${this.name}] stream() requires a positive integer batchSize. Received: ${batchSize}`
+      );
+    }
+
+    const ref = this.getCollectionRef() as any;
+    const baseQuery: Query<InstanceType<T>> = applySoftDeleteScope(
+      this,
+      options.queryFn ? options.queryFn(ref) : ref,
+      options
+    );
+    let remaining = options.limit ?? Infinity;
+    let lastVisible: QueryDocumentSnapshot<InstanceType<T>> | undefined;
+
+    while (remaining > 0) {
+      let query = baseQuery.limit(Math.min(batchSize, remaining));
+      if (lastVisible) query = query.startAfter(lastVisible);
+
+      const snapshot = await query.get();
+      const instances = snapshot.docs
+        .map((doc) => doc.data())
+        .filter((instance) => !!instance);
+      await this._applyPopulation(instances, options);
+      yield* instances;
+
+      remaining -= snapshot.docs.length;
+      if (snapshot.docs.length < batchSize) return;
+      lastVisible = snapshot.docs[snapshot.docs.length - 1];
+    }
+  }
+
+  /**
+   * Listens to a query in realtime. Each snapshot's changes are delivered as
+   * `{ added, modified, removed }` arrays of hydrated instances; added and modified
+   * ones are populated per `options.populate`/`populateSub` (or the eager relations).
+   * Failures are delivered to the required `options.onError` as `WatchError`s.
+   * @example
+   * ```typescript
+   * const unsubscribe = User.watch(
+   *   (ref) => ref.where("isActive", "==", true),
+   *   ({ added, removed }) => {
+   *     dashboard.add(added);
+   *     dashboard.remove(removed);
+   *   },
+   *   { onError: (error) => dashboard.fail(error) }
+   * );
+   * ```
+   * @returns A function that stops the listener.
+   */
+  static watch<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    queryFn:
+      | ((
+          ref: CollectionReference<InstanceType<T>>
+        ) => Query<InstanceType<T>>)
+      | undefined,
+    handler: (changes: WatchChanges<InstanceType<T>>) => void | Promise<void>,
+    options: WatchOptions
+  ): () => void {
+    const ref = this.getCollectionRef() as any;
+    const query: Query<InstanceType<T>> = applySoftDeleteScope(
+      this,
+      queryFn ? queryFn(ref) : ref,
+      options
+    );
+    return watchQuery(this, query, handler, options);
+  }
+
+  /**
+   * Runs several aggregations in a single server-side aggregate query,
+   * without reading the matching documents.
+   * @example
+   * ```typescript
+   * const { total, logins } = await User.aggregate({
+   *   total: AggregateField.count(),
+   *   logins: AggregateField.sum("loginCount"),
+   * });
+   * ```
+   */
+  static async aggregate<T extends typeof BaseModel, S extends AggregateSpec>(
+    this: T & BaseModelConstructor,
+    spec: S,
+    queryFn?: (
+      ref: CollectionReference<InstanceType<T>>
+    ) => Query<InstanceType<T>>,
+    scope?: SoftDeleteScope
+  ): Promise<AggregateSpecData<S>> {
+    const ref = this.getCollectionRef() as any;
+    const query: Query = applySoftDeleteScope(
+      this,
+      queryFn ? queryFn(ref) : ref,
+      scope
+    );
+    const snapshot = await query.aggregate(spec).get();
+    return snapshot.data();
+  }
+
+  /** Counts the documents matching the query without reading them. */
+  static async count<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    queryFn?: (
+      ref: CollectionReference<InstanceType<T>>
+    ) => Query<InstanceType<T>>,
+    scope?: SoftDeleteScope
+  ): Promise<number> {
+    const { count } = await this.aggregate(
+      { count: AggregateField.count() },
+      queryFn,
+      scope
+    );
+    return count;
+  }
+
+  /** Sums a numeric field over the documents matching the query. */
+  static async sum<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    field: NumericField<InstanceType<T>>,
+    queryFn?: (
+      ref: CollectionReference<InstanceType<T>>
+    ) => Query<InstanceType<T>>,
+    scope?: SoftDeleteScope
+  ): Promise<number> {
+    const { sum } = await this.aggregate(
+      { sum: AggregateField.sum(toStoredPath(this, field)) },
+      queryFn,
+      scope
+    );
+    return sum;
+  }
+
+  /**
+   * Averages a numeric field over the documents matching the query.
+   * Resolves to `null` when no document has a numeric value for the field.
+   */
+  static async average<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    field: NumericField<InstanceType<T>>,
+    queryFn?: (
+      ref: CollectionReference<InstanceType<T>>
+    ) => Query<InstanceType<T>>,
+    scope?: SoftDeleteScope
+  ): Promise<number | null> {
+    const { average } = await this.aggregate(
+      { average: AggregateField.average(toStoredPath(this, field)) },
+      queryFn,
+      scope
+    );
+    return average;
+  }
+
+  /**
+   * Queries every subcollection named after this `@SubCollectionModel`'s path,
+   * across all parent documents, using a collection group query.
+   * Each result gets a lightweight `__parent` rebuilt from its document path,
+   * so `docRef`, `save()`, `update()` and `delete()` keep working.
+   * @example
+   * ```typescript
+   * const funded = await GiftCard.findAcrossParents((q) => q.where("balance", ">", 0));
+   * ```
+   * @throws {Error} If the model is not declared with `@SubCollectionModel`.
+   */
+  static async findAcrossParents<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    queryFn?: (query: Query<InstanceType<T>>) => Query<InstanceType<T>>,
+    options?: Pick<
+      FindOptions,
+      "populate" | "populateSub" | "withDeleted" | "onlyDeleted"
+    >
+  ): Promise<InstanceType<T>[]> {
+    const meta = Reflect.getOwnMetadata(SUBMODEL_KEY, this) as
+      | SubModelMetadata
+      | undefined;
+    if (!meta) {
+      throw new Error(
+        `findAcrossParents() requires @SubCollectionModel on class ${this.name}`
+      );
+    }
+
+    const group = getFirestoreInstance()
+      .collectionGroup(meta.subPath)
+      .withConverter(this._getFirestoreConverter<InstanceType<T>>());
+    const snapshot = await applySoftDeleteScope(
+      this,
+      queryFn ? queryFn(group) : group,
+      options
+    ).get();
+
+    const ParentModel = meta.parentModel();
+    const results: InstanceType<T>[] = [];
+    for (const doc of snapshot.docs) {
+      const parentRef = doc.ref.parent.parent;
+      const parent = parentRef && rebuildParent(ParentModel, parentRef);
+      if (!parent) continue;
+
+      const instance = doc.data();
+      (instance as any).__parent = parent;
+      results.push(instance);
+    }
+    return this._applyPopulation(results, options);
+  }
+
+  /**
+   * Creates many documents at once with a BulkWriter (throttled, retried, not limited
+   * to 500 writes like `runInBatch`). Each instance is validated and runs
+   * `beforeSave`/`afterSave`; a failing document does not stop the others.
+   * @example
+   * ```typescript
+   * const report = await User.insertMany(rows.map((row) => new User(row)));
+   * report.results.filter((r) => !r.success).forEach((r) => console.error(r.id, r.error));
+   * ```
+   * @throws {Error} If called inside `runInTransaction` or `runInBatch`.
+   */
+  static async insertMany<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    instances: InstanceType<T>[],
+    options?: BulkWriteOptions
+  ): Promise<BulkWriteReport<InstanceType<T>>> {
+    return insertMany<InstanceType<T>>(this, instances, options);
+  }
+
+  /**
+   * Applies the same update to every document matching the query with a BulkWriter,
+   * running `beforeUpdate`/`afterUpdate` for each one. Soft-deleted documents are
+   * skipped unless `withDeleted`/`onlyDeleted` is passed.
+   * @example
+   * ```typescript
+   * await User.updateMany((ref) => ref.where("status", "==", "TRIAL"), { status: "EXPIRED" });
+   * ```
+   * @throws {Error} If called inside `runInTransaction` or `runInBatch`.
+   */
+  static async updateMany<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    queryFn:
+      | ((
+          ref: CollectionReference<InstanceType<T>>
+        ) => Query<InstanceType<T>>)
+      | undefined,
+    data: UpdateData<InstanceType<T>>,
+    options?: BulkWriteOptions & SoftDeleteScope
+  ): Promise<BulkWriteReport<InstanceType<T>>> {
+    const ref = this.getCollectionRef() as any;
+    const query: Query<InstanceType<T>> = applySoftDeleteScope(
+      this,
+      queryFn ? queryFn(ref) : ref,
+      options
+    );
+    return updateMany<InstanceType<T>>(this, query, data, options);
+  }
+
+  /**
+   * Deletes every document matching the query with a BulkWriter, running
+   * `beforeDelete`/`afterDelete` for each one. On `@SoftDelete` models documents are
+   * stamped instead, unless `force` is set.
+   * @example
+   * ```typescript
+   * await Session.deleteMany((ref) => ref.where("expiresAt", "<", Timestamp.now()));
+   * ```
+   * @throws {Error} If called inside `runInTransaction` or `runInBatch`.
+   */
+  static async deleteMany<T extends typeof BaseModel>(
+    this: T & BaseModelConstructor,
+    queryFn:
+      | ((
+          ref: CollectionReference<InstanceType<T>>
+        ) => Query<InstanceType<T>>)
+      | undefined,
+    options?: BulkWriteOptions & SoftDeleteScope & { force?: boolean }
+  ): Promise<BulkWriteReport<InstanceType<T>>> {
+    const ref = this.getCollectionRef() as any;
+    const query: Query<InstanceType<T>> = applySoftDeleteScope(
+      this,
+      queryFn ? queryFn(ref) : ref,
+      options
+    );
+    return deleteMany<InstanceType<T>>(this, query, options);
+  }
+
   // --- Instance Methods ---
 
   protected _getConstructor<
@@ -450,12 +1101,21 @@ export abstract class BaseModel implements BaseModelInterface {
     const constructor = this._getConstructor();
     const relationMeta = constructor._getRelationMetadata();
     const relationProperties = new Set(relationMeta.map((r) => r.propertyName));
+    // @HasMany lists live on the related documents, @Virtual values are computed
+    const skippedProperties = new Set(
+      [
+        ...getHasManyMetadata(constructor),
+        ...getVirtualMetadata(constructor),
+      ].map((m) => m.propertyName)
+    );
+    const embeddedMetadata = getEmbeddedMetadata(constructor);
 
     for (const key in this) {
       // Basic filtering of non-data properties
       if (
         key === "id" ||
         key.startsWith("_") || // Exclude internal properties like _populatedRelations
+        skippedProperties.has(key) ||
         typeof this[key] === "function" ||
         !Object.prototype.hasOwnProperty.call(this, key)
       ) {
@@ -464,7 +1124,29 @@ export abstract class BaseModel implements BaseModelInterface {
 
       const value = this[key];
 
+      const embeddedMeta = embeddedMetadata.find((m) => m.propertyName === key);
+      if (embeddedMeta) {
+        if (value !== undefined) {
+          data[key] = serializeEmbedded(embeddedMeta, value);
+        }
+        continue;
+      }
+
       // Handle Relations
+      const arrayMeta = relationMeta.find(
+        (m) => m.array && m.propertyName === key
+      );
+      if (arrayMeta) {
+        if (!Array.isArray(value)) {
+          if (value !== undefined) data[key] = value;
+        } else if (serializing) {
+          data[key] = this._toRelationRefs(arrayMeta, value);
+        } else if (!value.some((item) => item instanceof BaseModel)) {
+          // Same as single relations: populated arrays are left out
+          data[key] = value;
+        }
+        continue;
+      }
       if (relationProperties.has(key)) {
         if (value instanceof BaseModel) {
           // If populated and serializing for save/set, convert back to Ref
@@ -505,163 +1187,53 @@ export abstract class BaseModel implements BaseModelInterface {
         continue; // Skip further processing for relation fields
       }
 
+      // Handle @Transform and registered converters
+      const stored = toFirestoreValue(constructor, key, value);
+
       // Handle Timestamps and Dates
-      if (value instanceof Date) {
-        data[key] = Timestamp.fromDate(value);
-      } else if (value instanceof Timestamp) {
-        data[key] = value; // Already a Timestamp
+      if (stored instanceof Date) {
+        data[key] = Timestamp.fromDate(stored);
+      } else if (stored instanceof Timestamp) {
+        data[key] = stored; // Already a Timestamp
       }
       // Handle GeoPoints
-      else if (value instanceof GeoPoint) {
-        data[key] = value;
+      else if (stored instanceof GeoPoint) {
+        data[key] = stored;
       }
       // Handle FieldValues (like serverTimestamp, increment) - pass them through
-      else if (value instanceof FieldValue) {
-        data[key] = value;
+      else if (stored instanceof FieldValue) {
+        data[key] = stored;
       }
       // Handle undefined (Firestore ignores undefined unless ignoreUndefinedProperties is false)
-      else if (value !== undefined) {
+      else if (stored !== undefined) {
         // Store other primitive types, arrays, plain objects
-        data[key] = value;
+        data[key] = stored;
       }
     }
+
+    const schemaVersion = getSchemaVersion(constructor);
+    if (serializing && schemaVersion) {
+      data[SCHEMA_VERSION_FIELD] = schemaVersion;
+    }
     return data;
   }
 
   async populate<K extends keyof this>(
-    fieldNames: K | K[] | boolean
+    fieldNames:
+      | K
+      | `${K & string}.${string}`
+      | PopulatePath
+      | (K | `${K & string}.${string}` | PopulatePath)[]
+      | boolean,
+    options?: { maxDepth?: number }
   ): Promise<void> {
     const constructor = this._getConstructor();
-    const relationMeta = constructor._getRelationMetadata();
-
-    const subDocMeta: SubCollectionDocMetadata[] =
-      Reflect.getOwnMetadata(SUBCOL_DOC_KEY, constructor) || [];
-
-    let fieldsToPopulate: string[];
-
-    if (typeof fieldNames === "boolean" && fieldNames) {
-      fieldsToPopulate = relationMeta
-        .filter((meta) => !meta.lazy)
-        .map((meta) => meta.propertyName);
-    } else {
-      fieldsToPopulate = Array.isArray(fieldNames)
-        ? (fieldNames as string[])
-        : [fieldNames as string];
-    }
-
-    const populationPromises: Promise<void>[] = [];
-
-    for (const fieldName of fieldsToPopulate) {
-      const meta = relationMeta.find((m) => m.propertyName === fieldName);
-      if (!meta) {
-        console.warn(
-          `[${constructor.name}] Attempted to populate non-relation field: '${fieldName}'`
-        );
-        continue;
-      }
-
-      // Check cache first (synchronous check)
-      if (this._populatedRelations.hasOwnProperty(fieldName)) {
-        // If it's cached (even as null), use the cached value and skip fetching
-        (this as any)[fieldName] = this._populatedRelations[fieldName];
-        continue;
-      }
-
-      const value = (this as any)[fieldName];
-
-      if (value instanceof DocumentReference) {
-        // Add the fetch operation to the list of promises
-        populationPromises.push(
-          (async () => {
-            try {
-              const RelatedModel = meta.relatedModel();
-
-              // Check if the related model has a subcollection metadata
-              const subCollectionMeta = Reflect.getOwnMetadata(
-                SUBMODEL_KEY,
-                RelatedModel
-              );
-              let relatedInstance: any = null;
-
-              // If it's a subcollection, fetch the document from the subcollection
-              if (subCollectionMeta) {
-                const docSnap = await value.get();
-
-                if (docSnap.exists) {
-                  relatedInstance = RelatedModel._fromFirestore(docSnap);
-                }
-              } else {
-                // Use findById without populate options here to prevent deep loops by default
-                relatedInstance = await RelatedModel.findById(value.id);
-              }
-              (this as any)[fieldName] = relatedInstance; // Update instance property
-              this._populatedRelations[fieldName] = relatedInstance; // Update cache
-            } catch (error) {
-              console.error(
-                `[${constructor.name}] Error populating relation '${fieldName}' (Ref ID: ${value.id}) on instance ${this.id}:`,
-                error
-              );
-              // Decide behavior on error: keep Ref? Set null? Throw?
-              (this as any)[fieldName] = null; // Set to null on error
-              this._populatedRelations[fieldName] = null; // Cache null on error
-            }
-          })()
-        );
-      } else if (value instanceof BaseModel) {
-        // Already populated (or was assigned as instance), ensure it's cached
-        this._populatedRelations[fieldName] = value;
-      } else if (value === null || value === undefined) {
-        // Relation is explicitly null or undefined, cache it as null
-        this._populatedRelations[fieldName] = null;
-      }
-      // else: The field holds something other than Ref/Instance/null/undefined - ignore.
-    }
-
-    for (const fieldName of fieldsToPopulate) {
-      const meta = subDocMeta.find((m) => m.propertyName === fieldName);
-      if (!meta) {
-        continue;
-      }
-
-      if (this._populatedRelations.hasOwnProperty(fieldName)) {
-        (this as any)[fieldName] = this._populatedRelations[fieldName];
-        continue;
-      }
-
-      populationPromises.push(
-        (async () => {
-          try {
-            const Model = meta.model();
-            const parentDocRef = this._getDocRef();
-
-            const docRef = parentDocRef
-              .collection(meta.subcollectionName)
-              .doc(meta.docId);
-            const docSnap = await docRef.get();
-
-            let instance: any = null;
-            if (docSnap.exists) {
-              instance = Model._fromFirestore(docSnap);
-              if (instance) {
-                (instance as any).__parent = this;
-              }
-            }
-
-            (this as any)[fieldName] = instance;
-            this._populatedRelations[fieldName] = instance;
-          } catch (error) {
-            console.error(
-              `[${constructor.name}] Error populating subcollection document '${fieldName}' (ID: ${meta.docId}) on instance ${this.id}:`,
-              error
-            );
-            (this as any)[fieldName] = null;
-            this._populatedRelations[fieldName] = null;
-          }
-        })()
-      );
-    }
-    // Wait for all fetches to complete
-    await Promise.all(populationPromises);
+    await populateMany(
+      constructor,
+      [this],
+      resolvePopulateNodes(constructor, fieldNames as PopulateOption[]),
+      createPopulateContext([this], options?.maxDepth)
+    );
   }
 
   validate(dataToValidate?: DocumentData): void {
@@ -674,14 +1246,12 @@ export abstract class BaseModel implements BaseModelInterface {
       // If specific data is passed (like in update), validate that.
       // Otherwise, validate the whole instance's data representation.
       const data = dataToValidate ?? this._toFirestore(false); // Use false for plain data representation
-      schema.parse(data);
+      // Stamped by the ORM, not part of the model's schema
+      const { [SCHEMA_VERSION_FIELD]: _schemaVersion, ...fields } = data;
+      this._withValidateModel(schema).parse(fields);
     } catch (error) {
       if (error instanceof ZodError) {
-        const validationError = new ValidationError(
-          `[${constructor.name}] Validation failed: ${error.errors.map((e) => `(${e.path.join(".")}) ${e.message}`).join("; ")}`,
-          error.issues
-        );
-        throw validationError; // Throw the custom error
+        throw this._toValidationError(error.issues); // Throw the custom error
       } else {
         // Re-throw unexpected errors
         console.error(
@@ -693,6 +1263,48 @@ export abstract class BaseModel implements BaseModelInterface {
     }
   }
 
+  /**
+   * Validates an `update()` payload against a partial version of the schema:
+   * only the given fields are checked, dotted paths against the nested schema of
+   * map fields, and `FieldValue`s against the type of their target field. Then the
+   * `@ValidateModel` rules and `validateModel()` run against the persisted state (the
+   * current values for instances never loaded nor saved) merged with the payload.
+   * Shared by `update()` and `updateMany()`.
+   * @throws {ValidationError} If a field or a model rule is violated.
+   */
+  private _validateUpdate(updateData: UpdateData<any>): void {
+    const constructor = this._getConstructor();
+    // Stamped by the ORM, not part of the model's schema
+    const { [SCHEMA_VERSION_FIELD]: _schemaVersion, ...fields } =
+      updateData as DocumentData;
+    const issues = getUpdateIssues(constructor, fields);
+    if (issues.length > 0) {
+      throw this._toValidationError(issues);
+    }
+    const { [SCHEMA_VERSION_FIELD]: _storedVersion, ...state } = applyUpdate(
+      this._loadedState ?? this._toFirestore(true),
+      fields
+    );
+    const result = this._withValidateModel(
+      getModelRulesSchema(constructor)
+    ).safeParse(state);
+    if (!result.success) {
+      throw this._toValidationError(result.error.issues);
+    }
+  }
+
+  /** Adds the `validateModel()` hook to a schema. */
+  private _withValidateModel(schema: ZodTypeAny): ZodTypeAny {
+    return schema.superRefine((data, ctx) => this.validateModel(data, ctx));
+  }
+
+  private _toValidationError(issues: ZodIssue[]): ValidationError {
+    return new ValidationError(
+      `[${this._getConstructor().name}] Validation failed: ${issues.map((e) => `(${e.path.join(".")}) ${e.message}`).join("; ")}`,
+      issues
+    );
+  }
+
   /**
    * Saves (creates or overwrites) the document in Firestore.
    * If executed within an active transaction or batch context (started via `runInTransaction` or `runInBatch`),
@@ -708,44 +1320,64 @@ export abstract class BaseModel implements BaseModelInterface {
     const currentContext = transactionContext.getStore(); // <--- Get context
     const isTransactional = currentContext !== undefined;
 
-    // --- Defaults and Hooks ---
-    const defaultsTimestamps: string[] =
-      Reflect.getOwnMetadata(TIMESTAMP_KEY, this.constructor) || [];
-    for (const prop of defaultsTimestamps) {
-      if ((this as any)[prop] == null) {
-        (this as any)[prop] = Timestamp.now();
-      }
-    }
-    const defaultsBoolean: any[] =
-      Reflect.getOwnMetadata(BOOLEAN_KEY, this.constructor) || [];
-    for (const defaultBoolean of defaultsBoolean) {
-      if ((this as any)[defaultBoolean.prop] == null) {
-        (this as any)[defaultBoolean.prop] = defaultBoolean.defaultValue;
-      }
-    }
-    await this.beforeSave(options); // Always run beforeSave
-
-    // --- Prepare and Validate Data ---
-    const dataForFirestore = this._toFirestore(true);
-    this.validate(dataForFirestore);
+    // --- Defaults, Hooks and Validation ---
+    const dataForFirestore = await this._prepareSave(options);
 
     // --- Get Ref ---
     const docRef = this._getDocRef(); // Ensures ID is generated if needed
 
+    // --- Unique constraints: reservations written with the document ---
+    const unique = await prepareUniqueSave(
+      this,
+      dataForFirestore,
+      isFirestoreTransaction(currentContext) ? currentContext : undefined
+    );
+
+    // --- Versioned models: checked write ---
+    const versionField = getVersionField(constructor);
+    if (versionField) {
+      const result = await this._writeVersioned(
+        versionField,
+        dataForFirestore,
+        (options as any)?.merge || (options as any)?.mergeFields
+          ? "merge"
+          : "set",
+        options,
+        unique
+      );
+      this._takeSnapshot();
+      if (result) {
+        // Run afterSave ONLY for direct ops
+        await this._resolveServerDates(dataForFirestore);
+        await this.afterSave(result, options);
+      }
+      return result;
+    }
+
     // --- Perform Operation ---
+    const storedData = toStoredData(constructor, dataForFirestore);
     if (currentContext) {
       // Transaction or Batch context is active
       if (isFirestoreTransaction(currentContext)) {
-        currentContext.set(docRef, dataForFirestore, options || {});
+        currentContext.set(docRef, storedData, options || {});
+        unique?.apply(currentContext);
       } else if (isWriteBatch(currentContext)) {
-        currentContext.set(docRef, dataForFirestore, options || {});
+        currentContext.set(docRef, storedData, options || {});
+        unique?.apply(currentContext);
       }
+      this._takeSnapshot();
       // afterSave hook is SKIPPED, return undefined
       return undefined; // <--- Return undefined in context
     } else {
       // Direct operation
       try {
-        const result = await docRef.set(dataForFirestore, options || {});
+        const result = unique
+          ? await commitWithUniqueWrites(unique, (batch) =>
+              batch.set(docRef, storedData, options || {})
+            )
+          : await docRef.set(storedData, options || {});
+        this._takeSnapshot();
+        await this._resolveServerDates(dataForFirestore);
         await this.afterSave(result, options); // Run afterSave ONLY for direct ops
         return result; // <--- Return WriteResult
       } catch (error) {
@@ -765,7 +1397,7 @@ export abstract class BaseModel implements BaseModelInterface {
    *
    * @param updateData Object containing the fields to update. Can include `FieldValue`s.
    * @returns A Promise resolving with the `WriteResult` for direct operations, or `undefined` if executed within a transaction/batch context.
-   * @throws {ValidationError} If validation against the static schema fails for the updated fields (if implemented).
+   * @throws {ValidationError} If an updated field (or dotted path) violates the schema, or a `FieldValue` does not fit its field (e.g. `increment()` on a non-number field).
    * @throws {Error} If the instance does not have an `id`.
    */
   async update(updateData: UpdateData<this>): Promise<WriteResult | undefined> {
@@ -779,34 +1411,9 @@ export abstract class BaseModel implements BaseModelInterface {
     const isTransactional = currentContext !== undefined;
 
     // --- Prepare clean update data ---
-    let cleanUpdateData: UpdateData<any> = {};
     const relationMeta = constructor._getRelationMetadata();
     const relationProperties = new Set(relationMeta.map((r) => r.propertyName));
-    // ... (same cleaning logic as before) ...
-    for (const key in updateData) {
-      if (
-        key === "id" ||
-        key.startsWith("_") ||
-        typeof (this as any)[key] === "function" ||
-        !Object.prototype.hasOwnProperty.call(updateData, key)
-      ) {
-        continue;
-      }
-      const value = (updateData as any)[key];
-      if (value instanceof FieldValue) {
-        cleanUpdateData[key] = value;
-      } else if (
-        relationProperties.has(key) &&
-        (value === null || value instanceof DocumentReference)
-      ) {
-        cleanUpdateData[key] = value;
-      } else if (!relationProperties.has(key) && value === null) {
-        cleanUpdateData[key] = null;
-      } else if (!relationProperties.has(key) && value !== undefined) {
-        cleanUpdateData[key] =
-          value instanceof Date ? Timestamp.fromDate(value) : value;
-      }
-    }
+    const cleanUpdateData = this._cleanUpdateData(updateData);
 
     if (Object.keys(cleanUpdateData).length === 0) {
       console.warn(
@@ -814,30 +1421,68 @@ export abstract class BaseModel implements BaseModelInterface {
       );
       return isTransactional ? undefined : ({} as WriteResult); // Return undefined or empty WR
     }
+    this._stampUpdate(cleanUpdateData);
 
-    // --- Partial Validation (Optional) ---
-    // try { this.validate(cleanUpdateData); } catch (e) { throw e; }
-
-    // --- Hook and Ref ---
+    // --- Hook and partial validation (of the hook's changes too, as in save()) ---
     await this.beforeUpdate(cleanUpdateData); // Always run beforeUpdate
+    this._validateUpdate(cleanUpdateData);
     const docRef = this._getDocRef(); // Get ref without converter
 
+    // --- Unique constraints: reservations written with the document ---
+    const unique = await prepareUniqueUpdate(
+      this,
+      cleanUpdateData,
+      isFirestoreTransaction(currentContext) ? currentContext : undefined
+    );
+
+    // --- Versioned models: checked write ---
+    const versionField = getVersionField(constructor);
+    if (versionField) {
+      const result = await this._writeVersioned(
+        versionField,
+        cleanUpdateData,
+        "update",
+        undefined,
+        unique
+      );
+      this._updateLocalState(cleanUpdateData, relationProperties);
+      this._trackUpdate(cleanUpdateData);
+      if (result) {
+        // Run afterUpdate ONLY for direct ops
+        await this._resolveServerDates(cleanUpdateData);
+        await this.afterUpdate(result, cleanUpdateData);
+      }
+      return result;
+    }
+
     // --- Perform Operation ---
+    const storedUpdateArgs = toUpdateArgs(
+      toStoredData(constructor, cleanUpdateData)
+    );
     if (currentContext) {
       // Transaction or Batch context is active
       if (isFirestoreTransaction(currentContext)) {
-        currentContext.update(docRef, cleanUpdateData);
+        currentContext.update(docRef, ...storedUpdateArgs);
+        unique?.apply(currentContext);
       } else if (isWriteBatch(currentContext)) {
-        currentContext.update(docRef, cleanUpdateData);
+        currentContext.update(docRef, ...storedUpdateArgs);
+        unique?.apply(currentContext);
       }
       // Update local state, skip afterUpdate hook, return undefined
       this._updateLocalState(cleanUpdateData, relationProperties);
+      this._trackUpdate(cleanUpdateData);
       return undefined; // <--- Return undefined in context
     } else {
       // Direct operation
       try {
-        const result = await docRef.update(cleanUpdateData);
+        const result = unique
+          ? await commitWithUniqueWrites(unique, (batch) =>
+              batch.update(docRef, ...storedUpdateArgs)
+            )
+          : await docRef.update(...storedUpdateArgs);
         this._updateLocalState(cleanUpdateData, relationProperties); // Update local state
+        this._trackUpdate(cleanUpdateData);
+        await this._resolveServerDates(cleanUpdateData);
         await this.afterUpdate(result, cleanUpdateData); // Run afterUpdate ONLY for direct ops
         return result; // <--- Return WriteResult
       } catch (error) {
@@ -852,13 +1497,87 @@ export abstract class BaseModel implements BaseModelInterface {
 
   /**
    * Deletes the document from Firestore. Requires the instance to have an ID.
+   * On models decorated with `@SoftDelete`, the document is kept and its deletion field
+   * is stamped instead (the instance keeps its ID so it can be `restore()`d); use
+   * `forceDelete()` to remove it for good. Soft deletes never cascade.
    * If executed within an active transaction or batch context (started via `runInTransaction` or `runInBatch`),
    * the operation will be added to that context.
    *
+   * @param options Cascade options (see `forceDelete`). When given, resolves with a `DeleteResult`.
    * @returns A Promise resolving with the `WriteResult` for direct operations, or `undefined` if executed within a transaction/batch context.
    * @throws {Error} If the instance does not have an `id`.
    */
-  async delete(): Promise<WriteResult | undefined> {
+  delete(): Promise<WriteResult | undefined>;
+  delete(options: DeleteOptions): Promise<DeleteResult>;
+  async delete(
+    options?: DeleteOptions
+  ): Promise<WriteResult | undefined | DeleteResult> {
+    const softDelete = getSoftDeleteMetadata(this._getConstructor());
+    if (!softDelete) {
+      return options ? this.forceDelete(options) : this.forceDelete();
+    }
+    if (!this.id) {
+      throw new Error("Cannot delete document without an ID.");
+    }
+    const originalId = this.id;
+
+    await this.beforeDelete(); // Always run beforeDelete
+    const result = await this._writeSoftDeleteField(
+      softDelete.field,
+      Timestamp.now()
+    );
+    if (result) {
+      await this.afterDelete(result, originalId); // Run afterDelete ONLY for direct ops
+    }
+    return options ? { result, deletedCount: 0 } : result;
+  }
+
+  /**
+   * Clears the deletion field of a soft-deleted document (see `@SoftDelete`).
+   * Runs the `beforeRestore` hook, and `afterRestore` for direct operations.
+   *
+   * @returns A Promise resolving with the `WriteResult` for direct operations, or `undefined` if executed within a transaction/batch context.
+   * @throws {Error} If the instance does not have an `id` or the model is not decorated with `@SoftDelete`.
+   */
+  async restore(): Promise<WriteResult | undefined> {
+    const constructor = this._getConstructor();
+    const softDelete = getSoftDeleteMetadata(constructor);
+    if (!softDelete) {
+      throw new Error(
+        `Cannot restore ${constructor.name}: the model is not decorated with @SoftDelete.`
+      );
+    }
+    if (!this.id) {
+      throw new Error("Cannot restore document without an ID.");
+    }
+
+    await this.beforeRestore(); // Always run beforeRestore
+    const result = await this._writeSoftDeleteField(softDelete.field, null);
+    if (result) {
+      await this.afterRestore(result); // Run afterRestore ONLY for direct ops
+    }
+    return result;
+  }
+
+  /**
+   * Permanently deletes the document from Firestore, bypassing `@SoftDelete`.
+   * Requires the instance to have an ID.
+   * Children declared with `@SubCollection`/`@SubCollectionDoc` and `cascade: true`
+   * (or all of them with `options.cascade`) are deleted once the document is, with a
+   * BulkWriter, running their own hooks when `childHooks` is set. If a child delete
+   * fails, the error is thrown with the document already removed.
+   * If executed within an active transaction or batch context (started via `runInTransaction` or `runInBatch`),
+   * the operation will be added to that context.
+   *
+   * @param options Cascade options. When given, resolves with a `DeleteResult` reporting how many documents were removed.
+   * @returns A Promise resolving with the `WriteResult` for direct operations, or `undefined` if executed within a transaction/batch context.
+   * @throws {Error} If the instance does not have an `id`, or if children must be cascaded inside a transaction/batch context.
+   */
+  forceDelete(): Promise<WriteResult | undefined>;
+  forceDelete(options: DeleteOptions): Promise<DeleteResult>;
+  async forceDelete(
+    options?: DeleteOptions
+  ): Promise<WriteResult | undefined | DeleteResult> {
     if (!this.id) {
       throw new Error("Cannot delete document without an ID.");
     }
@@ -871,26 +1590,42 @@ export abstract class BaseModel implements BaseModelInterface {
     await this.beforeDelete(); // Always run beforeDelete
     const docRef = this._getDocRef();
 
+    // --- Children to cascade to, once the document is deleted ---
+    const cascade = prepareCascade(this, options);
+
+    // --- Unique constraints: reservations released with the document ---
+    const unique = await prepareUniqueRelease(
+      this,
+      isFirestoreTransaction(currentContext) ? currentContext : undefined
+    );
+    const report = (result: WriteResult | undefined, childrenDeleted = 0) =>
+      options ? { result, deletedCount: childrenDeleted + 1 } : result;
+
     // --- Perform Operation ---
     if (currentContext) {
       // Transaction or Batch context is active
       if (isFirestoreTransaction(currentContext)) {
         currentContext.delete(docRef);
+        unique?.apply(currentContext);
       } else if (isWriteBatch(currentContext)) {
         currentContext.delete(docRef);
+        unique?.apply(currentContext);
       }
       // Invalidate local state, skip afterDelete hook, return undefined
-      this.id = undefined;
-      this._populatedRelations = {};
-      return undefined; // <--- Return undefined in context
+      this._markDeleted();
+      return report(undefined); // <--- Return undefined in context
     } else {
       // Direct operation
       try {
-        const result = await docRef.delete();
-        this.id = undefined; // Invalidate local state
-        this._populatedRelations = {};
+        const result = unique
+          ? await commitWithUniqueWrites(unique, (batch) =>
+              batch.delete(docRef)
+            )
+          : await docRef.delete();
+        const childrenDeleted = await deleteChildrenCounted(this, cascade);
+        this._markDeleted(); // Invalidate local state
         await this.afterDelete(result, originalId); // Run afterDelete ONLY for direct ops
-        return result; // <--- Return WriteResult
+        return report(result, childrenDeleted); // <--- Return WriteResult
       } catch (error) {
         console.error(
           `[${constructor.name}] Error deleting document (ID: ${originalId}):`,
@@ -912,6 +1647,7 @@ export abstract class BaseModel implements BaseModelInterface {
 
     const freshInstance = await constructor.findById(this.id, {
       populate: options?.populate as any,
+      withDeleted: true,
     });
 
     if (!freshInstance) {
@@ -940,17 +1676,570 @@ export abstract class BaseModel implements BaseModelInterface {
     return this;
   }
 
+  /**
+   * Listens to this document in realtime. The handler receives the fresh instance in
+   * `added` (first snapshot), then in `modified`, and the last known state in
+   * `removed` when the document is deleted.
+   * Failures are delivered to the required `options.onError` as `WatchError`s.
+   * @returns A function that stops the listener.
+   */
+  watch(
+    handler: (changes: WatchChanges<this>) => void | Promise<void>,
+    options: WatchOptions
+  ): () => void {
+    return watchDocument(this, handler, options);
+  }
+
+  /**
+   * Whether the instance differs from the state it was loaded with (or last written).
+   * @param field Optional property name or dotted map path to check; checks all fields when omitted.
+   * A `@Virtual` property is dirty when one of its `dependsOn` fields is.
+   * Instances that were never loaded nor saved are always dirty.
+   */
+  isDirty(field?: keyof this | string): boolean {
+    const paths = Object.keys(this.getChanges());
+    if (field === undefined) {
+      return !this._loadedState || paths.length > 0;
+    }
+    const name = String(field);
+    const virtual = getVirtualMetadata(this.constructor).find(
+      (v) => v.propertyName === name
+    );
+    if (virtual) {
+      return virtual.dependsOn.some((dep) => this.isDirty(dep));
+    }
+    return paths.some((path) => isSamePathOrNested(path, name));
+  }
+
+  /**
+   * Lists the fields changed since the instance was loaded (or last written),
+   * keyed by field path. Nested map changes are reported on dotted paths
+   * (e.g. `address.city`); a removed field has `new: undefined`.
+   */
+  getChanges(): Record<string, FieldChange> {
+    const changes = diffData(this._loadedState ?? {}, this._toFirestore(true));
+    for (const [path, local] of Object.entries(this._staleFields)) {
+      if (changes[path] && isEqualValue(changes[path].new, local)) {
+        delete changes[path];
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Writes only the changed fields with `update()`, leaving concurrent edits to
+   * other fields untouched. `beforeUpdate` receives exactly that diff.
+   * Falls back to `save()` for instances that were never loaded nor saved.
+   * @returns The `WriteResult` of the update, or `undefined` when nothing changed
+   * or when executed within a transaction/batch context.
+   */
+  async saveChanges(): Promise<WriteResult | undefined> {
+    if (!this.id || !this._loadedState) {
+      return this.save();
+    }
+    const updateData: UpdateData<any> = {};
+    for (const [path, change] of Object.entries(this.getChanges())) {
+      updateData[path] =
+        change.new === undefined ? FieldValue.delete() : change.new;
+    }
+    if (Object.keys(updateData).length === 0) {
+      return undefined;
+    }
+    return this.update(updateData as UpdateData<this>);
+  }
+
   /**
    * Express/etc will call toJSON() under the hood,
-   * and the payload will only contain the real fields.
+   * and the payload will only contain the real fields, plus `@Virtual` values.
    */
   toJSON(): Record<string, any> {
     const out: Record<string, any> = {};
     if (this.id != null) out.id = this.id;
     Object.assign(out, this._toFirestore(false));
+    for (const { propertyName } of getVirtualMetadata(this.constructor)) {
+      const value = (this as any)[propertyName];
+      if (value !== undefined) out[propertyName] = value;
+    }
     return out;
   }
 
+  /**
+   * Assigns the `default` of field decorators to properties that are `undefined`.
+   * Factories are called per instance and static arrays/objects are copied, so
+   * instances never share a default.
+   */
+  private _applyDefaults(): void {
+    for (const { propertyName, value } of getFieldDefaults(this.constructor)) {
+      if ((this as any)[propertyName] !== undefined) continue;
+      (this as any)[propertyName] =
+        typeof value === "function" ? value() : cloneData(value);
+    }
+  }
+
+  /**
+   * Applies field defaults, runs `beforeSave` and validates; returns the
+   * data to write. Shared by `save()` and `insertMany()`.
+   */
+  private async _prepareSave(options?: SetOptions): Promise<DocumentData> {
+    const constructor = this._getConstructor();
+    const defaultsTimestamps: string[] =
+      Reflect.getOwnMetadata(TIMESTAMP_KEY, this.constructor) || [];
+    for (const prop of defaultsTimestamps) {
+      if ((this as any)[prop] == null) {
+        (this as any)[prop] = Timestamp.now();
+      }
+    }
+    const dateFields = getDateFieldMetadata(constructor);
+    const now = new Date();
+    for (const meta of dateFields) {
+      if (meta.serverTimestamp) continue;
+      const value = (this as any)[meta.propertyName];
+      if (meta.onUpdate || (meta.autoFill && value == null)) {
+        (this as any)[meta.propertyName] = now;
+      }
+    }
+    this._applyDefaults();
+    hydrateEmbedded(this.constructor, this);
+    const softDelete = getSoftDeleteMetadata(constructor);
+    if (softDelete && (this as any)[softDelete.field] === undefined) {
+      // Stored as null so the `== null` filter used by finders matches live documents
+      (this as any)[softDelete.field] = null;
+    }
+    await this.beforeSave(options); // Always run beforeSave
+
+    const dataForFirestore = this._toFirestore(true);
+    for (const meta of dateFields) {
+      if (!meta.serverTimestamp) continue;
+      const value = dataForFirestore[meta.propertyName];
+      if (meta.onUpdate || (meta.autoFill && value == null)) {
+        // Read back by _resolveServerDates() after the write
+        dataForFirestore[meta.propertyName] = FieldValue.serverTimestamp();
+      }
+    }
+    this.validate(dataForFirestore);
+    return dataForFirestore;
+  }
+
+  /**
+   * Adds the `@DateField({ onUpdate: true })` properties missing from an
+   * update payload. Shared by `update()` and `updateMany()`.
+   */
+  private _stampUpdate(cleanUpdateData: UpdateData<any>): void {
+    for (const meta of getDateFieldMetadata(this.constructor)) {
+      if (!meta.onUpdate || meta.propertyName in cleanUpdateData) continue;
+      cleanUpdateData[meta.propertyName] = meta.serverTimestamp
+        ? FieldValue.serverTimestamp()
+        : Timestamp.now();
+    }
+  }
+
+  /**
+   * Reads back the `@DateField` values just written as server timestamps,
+   * without touching other pending changes. Called after direct writes only.
+   */
+  private async _resolveServerDates(written: DocumentData): Promise<void> {
+    const constructor = this._getConstructor();
+    const fields = getDateFieldMetadata(constructor)
+      .map((meta) => meta.propertyName)
+      .filter(
+        (field) =>
+          written[field] instanceof FieldValue &&
+          written[field].isEqual(FieldValue.serverTimestamp())
+      );
+    if (fields.length === 0) return;
+    const snapshot = await this._getDocRef().get();
+    for (const field of fields) {
+      const value = snapshot.get(toStoredPath(constructor, field));
+      (this as any)[field] = fromFirestoreValue(constructor, field, value);
+      delete this._staleFields[field];
+      if (this._loadedState) {
+        this._loadedState[field] =
+          value instanceof Timestamp
+            ? Timestamp.fromMillis(value.toMillis())
+            : value;
+      }
+    }
+  }
+
+  /**
+   * Drops keys that cannot be written by `update()` (id, internals, methods,
+   * populated relations, `@HasMany` lists, `@Virtual` values) and converts `Date`s and
+   * `@Embedded` instances. Shared by `update()` and `updateMany()`.
+   */
+  private _cleanUpdateData(updateData: UpdateData<any>): UpdateData<any> {
+    const cleanUpdateData: UpdateData<any> = {};
+    const constructor = this._getConstructor();
+    const relationMeta = constructor._getRelationMetadata();
+    const relationProperties = new Set(relationMeta.map((r) => r.propertyName));
+    const skippedProperties = new Set(
+      [
+        ...getHasManyMetadata(constructor),
+        ...getVirtualMetadata(constructor),
+      ].map((m) => m.propertyName)
+    );
+    for (const key in updateData) {
+      if (key === SCHEMA_VERSION_FIELD) {
+        // Written by saveChanges() after a lazy migration
+        cleanUpdateData[key] = (updateData as any)[key];
+        continue;
+      }
+      if (
+        key === "id" ||
+        key.startsWith("_") ||
+        skippedProperties.has(key) ||
+        typeof (this as any)[key] === "function" ||
+        !Object.prototype.hasOwnProperty.call(updateData, key)
+      ) {
+        continue;
+      }
+      const value = (updateData as any)[key];
+      const embeddedMeta = findEmbeddedMetadata(constructor, key);
+      if (embeddedMeta) {
+        if (value !== undefined) {
+          cleanUpdateData[key] = serializeEmbedded(embeddedMeta, value);
+        }
+      } else if (value instanceof FieldValue) {
+        cleanUpdateData[key] = value;
+      } else if (
+        relationProperties.has(key) &&
+        (value === null || value instanceof DocumentReference)
+      ) {
+        cleanUpdateData[key] = value;
+      } else if (relationProperties.has(key) && Array.isArray(value)) {
+        const meta = relationMeta.find((m) => m.propertyName === key)!;
+        if (meta.array) {
+          cleanUpdateData[key] = this._toRelationRefs(meta, value);
+        }
+      } else if (!relationProperties.has(key) && value === null) {
+        cleanUpdateData[key] = null;
+      } else if (!relationProperties.has(key) && value !== undefined) {
+        // Fields of `@Embedded` classes are converted with their `@Transform`
+        const field = findEmbeddedField(constructor, key);
+        const stored = field
+          ? toFirestoreValue(field.embeddedClass, field.property, value)
+          : toFirestoreValue(constructor, key, value);
+        cleanUpdateData[key] =
+          stored instanceof Date ? Timestamp.fromDate(stored) : stored;
+      }
+    }
+    return cleanUpdateData;
+  }
+
+  /**
+   * Converts the elements of a `@RelationArray` to references. Instances without an
+   * ID cannot be referenced and are left out with a warning.
+   */
+  private _toRelationRefs(
+    meta: RelationMetadata,
+    items: unknown[]
+  ): DocumentReference[] {
+    const refs: DocumentReference[] = [];
+    for (const item of items) {
+      if (item instanceof DocumentReference) {
+        refs.push(item);
+      } else if (item instanceof BaseModel && item.id) {
+        refs.push(
+          (item as any).__docRef ??
+            getFirestoreInstance()
+              .collection(meta.relatedModel()._getCollectionName())
+              .doc(item.id)
+        );
+      } else if (item instanceof BaseModel) {
+        console.warn(
+          `[${this._getConstructor().name}] Serializing relation '${meta.propertyName}' but a related instance has no ID. Skipping it.`
+        );
+      } else {
+        // Left as is so validation reports the wrong element type
+        refs.push(item as DocumentReference);
+      }
+    }
+    return refs;
+  }
+
+  /**
+   * Adds documents to a `@RelationArray` property with an `arrayUnion` update,
+   * leaving concurrent changes to the array untouched. Items may be instances or references;
+   * the local array keeps its populated instances and gains the missing items.
+   */
+  async addRelation<K extends keyof this>(
+    prop: K,
+    ...items: (BaseModel | DocumentReference)[]
+  ): Promise<WriteResult | undefined> {
+    return this._writeRelationArray(prop as string, items, "add");
+  }
+
+  /**
+   * Removes documents from a `@RelationArray` property with an `arrayRemove` update.
+   * Items may be instances or references; they are matched by document path.
+   */
+  async removeRelation<K extends keyof this>(
+    prop: K,
+    ...items: (BaseModel | DocumentReference)[]
+  ): Promise<WriteResult | undefined> {
+    return this._writeRelationArray(prop as string, items, "remove");
+  }
+
+  private async _writeRelationArray(
+    prop: string,
+    items: (BaseModel | DocumentReference)[],
+    mode: "add" | "remove"
+  ): Promise<WriteResult | undefined> {
+    const constructor = this._getConstructor();
+    const meta = constructor
+      ._getRelationMetadata()
+      .find((m) => m.array && m.propertyName === prop);
+    if (!meta) {
+      throw new Error(
+        `@RelationArray not defined for property "${prop}" on ${constructor.name}`
+      );
+    }
+    if (items.some((item) => item instanceof BaseModel && !item.id)) {
+      throw new Error(
+        `[${constructor.name}] Cannot ${mode} unsaved ${meta.relatedModel().name} instances on '${prop}'. Save them first.`
+      );
+    }
+    const refs = this._toRelationRefs(meta, items);
+    const result = await this.update({
+      [prop]:
+        mode === "add"
+          ? FieldValue.arrayUnion(...refs)
+          : FieldValue.arrayRemove(...refs),
+    } as UpdateData<this>);
+
+    // Mirror the write locally, as Firestore applies it: by reference, without duplicates
+    const pathOf = (item: unknown) =>
+      this._toRelationRefs(meta, [item])[0]?.path;
+    const current: unknown[] = Array.isArray((this as any)[prop])
+      ? (this as any)[prop]
+      : [];
+    const paths = new Set(refs.map((ref) => ref.path));
+    let next: unknown[];
+    if (mode === "add") {
+      next = [...current];
+      const present = new Set(current.map(pathOf));
+      items.forEach((item, i) => {
+        if (!present.has(refs[i].path)) {
+          present.add(refs[i].path);
+          next.push(item);
+        }
+      });
+    } else {
+      next = current.filter((item) => !paths.has(pathOf(item)));
+    }
+    (this as any)[prop] = next;
+    delete this._populatedRelations[prop];
+    if (this._loadedState) {
+      this._loadedState[prop] = this._toRelationRefs(meta, next);
+    }
+    return result;
+  }
+
+  /** Invalidates the local state of a removed document. Shared by `deleteMany()`. */
+  private _markDeleted(): void {
+    this.id = undefined;
+    this._populatedRelations = {};
+  }
+
+  /** Records the current values as the persisted state. */
+  private _takeSnapshot(): void {
+    this._loadedState = cloneData(this._toFirestore(true));
+    this._staleFields = {};
+  }
+
+  /**
+   * Records the fields written by an update as persisted, leaving the other
+   * pending changes dirty. `FieldValue`s are applied to the persisted state, while the
+   * instance keeps its local value (e.g. after `increment()`): that value is remembered
+   * so the field does not report as changed and `saveChanges()` never writes it back.
+   * Instances without a persisted state are snapshotted as a whole.
+   */
+  private _trackUpdate(cleanUpdateData: UpdateData<any>): void {
+    if (!this._loadedState) {
+      this._takeSnapshot();
+      return;
+    }
+    this._loadedState = applyUpdate(
+      this._loadedState,
+      cleanUpdateData as DocumentData
+    );
+    const current = this._toFirestore(true);
+    for (const [path, value] of Object.entries(cleanUpdateData)) {
+      for (const stale of Object.keys(this._staleFields)) {
+        if (isSamePathOrNested(stale, path)) delete this._staleFields[stale];
+      }
+      if (value instanceof FieldValue && !value.isEqual(FieldValue.delete())) {
+        this._staleFields[path] = cloneData(readPath(current, path));
+      }
+    }
+  }
+
+  /**
+   * Sets a field that was written on its own, without touching other
+   * pending changes. Shared by the soft-delete writes and `deleteMany()`.
+   */
+  private _setTrackedField(field: string, value: unknown): void {
+    (this as any)[field] = value;
+    if (this._loadedState) {
+      this._loadedState[field] = value;
+    }
+    delete this._staleFields[field];
+  }
+
+  /**
+   * Writes `data` to a model with a `@VersionField`, after checking that the stored
+   * version matches the instance's. The next version is added to `data`.
+   * Inside `runInTransaction` the check is a transactional read; otherwise the write
+   * carries an `updateTime` precondition (or is a `create` for new documents).
+   * Merges are restricted to `mergeFields` (plus the version) and, on existing
+   * documents, written as updates of dotted paths so nested maps are deep-merged
+   * like `set(data, { merge: true })` does.
+   */
+  private async _writeVersioned(
+    versionField: string,
+    data: DocumentData,
+    mode: "set" | "merge" | "update",
+    options?: SetOptions,
+    unique?: UniqueWrites
+  ): Promise<WriteResult | undefined> {
+    const constructor = this._getConstructor();
+    const currentContext = transactionContext.getStore();
+    const docRef = this._getDocRef();
+    const expected: number | undefined = (this as any)[versionField];
+    const storedVersionField = toStoredPath(constructor, versionField);
+
+    const snapshot = isFirestoreTransaction(currentContext)
+      ? await currentContext.get(docRef)
+      : await docRef.get();
+    const actual: number | null = snapshot.exists
+      ? (snapshot.get(storedVersionField) ?? 0)
+      : null;
+    if (expected !== undefined && expected !== actual) {
+      throw new ConflictError(constructor.name, docRef.id, expected, actual);
+    }
+    const nextVersion = (actual ?? 0) + 1;
+    data[versionField] = nextVersion;
+    let storedData = toStoredData(constructor, data);
+    // Existing documents are merged with an update of dotted paths: `mergeFields`
+    // replace the value at each path, `merge` deep-merges nested maps
+    let mergeUpdate: DocumentData | undefined;
+    const mergeFields = (options as any)?.mergeFields as
+      | (string | FieldPath)[]
+      | undefined;
+    if (mode === "merge" && mergeFields) {
+      const paths = mergeFields.map((field) => {
+        if (typeof field !== "string") {
+          throw new Error(
+            `[${constructor.name}] mergeFields of @VersionField models must be dotted strings.`
+          );
+        }
+        return toStoredPath(constructor, field);
+      });
+      mergeUpdate = pickPaths(storedData, [...paths, storedVersionField]);
+      storedData = expandPaths(mergeUpdate);
+    } else if (mode === "merge") {
+      mergeUpdate = flattenData(storedData);
+    }
+    if (!snapshot.exists) mergeUpdate = undefined;
+
+    if (isFirestoreTransaction(currentContext)) {
+      if (mode === "update") {
+        currentContext.update(docRef, ...toUpdateArgs(storedData));
+      } else if (mergeUpdate) {
+        currentContext.update(docRef, ...toUpdateArgs(mergeUpdate));
+      } else {
+        currentContext.set(docRef, storedData);
+      }
+      unique?.apply(currentContext);
+      (this as any)[versionField] = nextVersion;
+      return undefined;
+    }
+
+    let payload: DocumentData = mergeUpdate ?? storedData;
+    if (mode === "set" && snapshot.exists) {
+      // Emulate an overwrite with an update so the precondition can apply
+      payload = { ...storedData };
+      for (const key of Object.keys(snapshot.data() || {})) {
+        const path = joinPath([key]);
+        if (!(path in payload)) payload[path] = FieldValue.delete();
+      }
+    }
+    const precondition = { lastUpdateTime: snapshot.updateTime! };
+
+    if (isWriteBatch(currentContext)) {
+      if (mode !== "update" && !snapshot.exists) {
+        currentContext.create(docRef, payload);
+      } else {
+        currentContext.update(docRef, ...toUpdateArgs(payload), precondition);
+      }
+      unique?.apply(currentContext);
+      (this as any)[versionField] = nextVersion;
+      return undefined;
+    }
+
+    try {
+      const isCreate = mode !== "update" && !snapshot.exists;
+      const result = unique
+        ? await commitWithUniqueWrites(unique, (batch) =>
+            isCreate
+              ? batch.create(docRef, payload)
+              : batch.update(docRef, ...toUpdateArgs(payload), precondition)
+          )
+        : isCreate
+          ? await docRef.create(payload)
+          : await docRef.update(...toUpdateArgs(payload), precondition);
+      (this as any)[versionField] = nextVersion;
+      return result;
+    } catch (error) {
+      const code = (error as any)?.code;
+      // 6 = ALREADY_EXISTS (concurrent create), 9 = FAILED_PRECONDITION (concurrent write)
+      if (code === 6 || code === 9) {
+        const current = await docRef.get();
+        throw new ConflictError(
+          constructor.name,
+          docRef.id,
+          actual,
+          current.exists ? (current.get(storedVersionField) ?? 0) : null
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async _writeSoftDeleteField(
+    field: string,
+    value: Timestamp | null
+  ): Promise<WriteResult | undefined> {
+    const constructor = this._getConstructor();
+    const currentContext = transactionContext.getStore();
+    const docRef = this._getDocRef();
+    const data = { [toStoredPath(constructor, field)]: value };
+
+    if (currentContext) {
+      if (isFirestoreTransaction(currentContext)) {
+        currentContext.update(docRef, data);
+      } else if (isWriteBatch(currentContext)) {
+        currentContext.update(docRef, data);
+      }
+      this._setTrackedField(field, value);
+      return undefined;
+    }
+    try {
+      const result = await docRef.update(data);
+      this._setTrackedField(field, value);
+      return result;
+    } catch (error) {
+      console.error(
+        `[${constructor.name}] Error writing '${field}' (ID: ${this.id}):`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Copies the written values to the instance; `FieldValue`s other than
+   * `delete()` are left as is. Shared by `update()` and `updateMany()`.
+   */
   private _updateLocalState(
     cleanUpdateData: UpdateData<any>,
     relationProperties: Set<string>
@@ -959,8 +2248,41 @@ export abstract class BaseModel implements BaseModelInterface {
       if (Object.prototype.hasOwnProperty.call(cleanUpdateData, key)) {
         const value = cleanUpdateData[key];
         if (!(value instanceof FieldValue) || value === FieldValue.delete()) {
-          (this as any)[key] =
-            value === FieldValue.delete() ? undefined : value;
+          const newValue = value === FieldValue.delete() ? undefined : value;
+          const segments = splitPath(key);
+          if (segments.length > 1) {
+            // Dotted field path: update the nested map in place
+            const last = segments.pop()!;
+            let target: any = this;
+            for (const segment of segments) {
+              if (
+                target[segment] == null ||
+                typeof target[segment] !== "object"
+              ) {
+                target[segment] = {};
+              }
+              target = target[segment];
+            }
+            // Fields of `@Embedded` classes are converted with their `@Transform`
+            const field = findEmbeddedField(this.constructor, key);
+            if (newValue === undefined) {
+              delete target[last];
+            } else {
+              target[last] = field
+                ? fromFirestoreValue(
+                    field.embeddedClass,
+                    field.property,
+                    newValue
+                  )
+                : newValue;
+            }
+          } else {
+            (this as any)[key] = fromFirestoreValue(
+              this.constructor,
+              key,
+              newValue
+            );
+          }
           if (relationProperties.has(key)) {
             delete this._populatedRelations[key];
           }
@@ -969,8 +2291,18 @@ export abstract class BaseModel implements BaseModelInterface {
         }
       }
     }
+    // Written sub-documents are plain maps again
+    hydrateEmbedded(this.constructor, this);
   }
 
+  /**
+   * Hook for rules involving several fields, run after the field validation of `save()`
+   * and against the merged post-update state in `update()`. `data` holds the stored
+   * shape (e.g. `Timestamp`s, references); report issues with `ctx.addIssue`.
+   * Unlike the other hooks it is synchronous.
+   */
+  validateModel(data: DocumentData, ctx: RefinementCtx): void {}
+
   async beforeSave(options?: SetOptions): Promise<void> {}
   async afterSave(result: WriteResult, options?: SetOptions): Promise<void> {}
   async beforeUpdate(data: UpdateData<this>): Promise<void> {}
@@ -980,6 +2312,8 @@ export abstract class BaseModel implements BaseModelInterface {
   ): Promise<void> {}
   async beforeDelete(): Promise<void> {}
   async afterDelete(result: WriteResult, originalId: string): Promise<void> {}
+  async beforeRestore(): Promise<void> {}
+  async afterRestore(result: WriteResult): Promise<void> {}
   async afterLoad(
     snapshot: DocumentSnapshot | QueryDocumentSnapshot
   ): Promise<void> {}
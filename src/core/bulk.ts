@@ -0,0 +1,316 @@
+import {
+  BulkWriter,
+  DocumentData,
+  FieldValue,
+  Query,
+  QueryDocumentSnapshot,
+  Timestamp,
+  UpdateData,
+  WriteResult,
+} from "firebase-admin/firestore";
+import { getFirestoreInstance } from "../config/firestore-instance";
+import { BaseModel, modelInternals } from "./base-model";
+import { CascadeTarget, deleteChildren, prepareCascade } from "./cascade";
+import { toUpdateArgs } from "./change-tracking";
+import { transactionContext } from "./context";
+import { getSoftDeleteMetadata, getVersionField } from "./decorators";
+import { toStoredData, toStoredPath } from "./field-names";
+import {
+  BaseModelConstructor,
+  BulkWriteItemResult,
+  BulkWriteOptions,
+  BulkWriteReport,
+} from "./types";
+import {
+  commitWithUniqueWrites,
+  prepareUniqueRelease,
+  prepareUniqueSave,
+  prepareUniqueUpdate,
+} from "./unique";
+
+/** ABORTED, UNAVAILABLE and RESOURCE_EXHAUSTED: transient, safe to retry. */
+const RETRYABLE_CODES = [10, 14, 8];
+const DEFAULT_MAX_RETRIES = 10;
+/** @internal Documents handled per page by the bulk operations and migrations. */
+export const DEFAULT_PAGE_SIZE = 300;
+
+function assertNoContext(model: BaseModelConstructor, method: string) {
+  if (transactionContext.getStore()) {
+    throw new Error(
+      `[${model.name}] ${method}() cannot run inside runInTransaction or runInBatch.`
+    );
+  }
+}
+
+/** @internal A BulkWriter retrying transient failures up to `options.maxRetries`. */
+export function createWriter(options: BulkWriteOptions): BulkWriter {
+  const writer = getFirestoreInstance().bulkWriter(
+    options.throttling === undefined ? {} : { throttling: options.throttling }
+  );
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  writer.onWriteError(
+    (error) =>
+      RETRYABLE_CODES.includes(error.code) && error.failedAttempts < maxRetries
+  );
+  return writer;
+}
+
+/**
+ * One document of a bulk operation: `prepare` runs the before-hooks and validation
+ * and returns the write to queue; `complete` runs once that write succeeded.
+ */
+interface BulkTask<M> {
+  instance: M;
+  prepare: () => Promise<() => Promise<WriteResult>>;
+  complete: (result: WriteResult) => Promise<void>;
+}
+
+/** Runs the tasks of one page, flushing the writer before the completions run. */
+async function runTasks<M extends BaseModel>(
+  writer: BulkWriter,
+  tasks: BulkTask<M>[]
+): Promise<BulkWriteItemResult<M>[]> {
+  let queued;
+  try {
+    // Queue every write before flushing: BulkWriter only sends a partial batch on flush()
+    queued = await Promise.all(
+      tasks.map(async (task) => {
+        try {
+          const write = await task.prepare();
+          const id = task.instance.id;
+          const outcome = write().then(
+            (result) => ({ result, error: undefined }),
+            (error) => ({ result: undefined, error })
+          );
+          return { task, id, outcome };
+        } catch (error) {
+          return { task, id: task.instance.id, error };
+        }
+      })
+    );
+  } finally {
+    await writer.flush();
+  }
+
+  const results: BulkWriteItemResult<M>[] = [];
+  for (const { task, id, outcome, error } of queued) {
+    const { instance } = task;
+    if (!outcome) {
+      results.push({ id, instance, success: false, error });
+      continue;
+    }
+    const { result, error: writeError } = await outcome;
+    if (!result) {
+      results.push({ id, instance, success: false, error: writeError });
+      continue;
+    }
+    try {
+      await task.complete(result);
+      results.push({ id, instance, success: true, result });
+    } catch (hookError) {
+      results.push({ id, instance, success: false, result, error: hookError });
+    }
+  }
+  return results;
+}
+
+function toReport<M>(results: BulkWriteItemResult<M>[]): BulkWriteReport<M> {
+  const successCount = results.filter((item) => item.success).length;
+  return {
+    results,
+    successCount,
+    failureCount: results.length - successCount,
+  };
+}
+
+/**
+ * Reads `query` in pages of `options.pageSize` documents, after the last document of
+ * the previous page, and runs each page's tasks before reading the next one. The
+ * documents are counted first, so a `limit()` on the query is honoured and the run
+ * ends even when the writes move documents past the cursor.
+ */
+async function runPaged<M extends BaseModel>(
+  query: Query<M>,
+  options: BulkWriteOptions,
+  toTask: (doc: QueryDocumentSnapshot<M>, writer: BulkWriter) => BulkTask<M>
+): Promise<BulkWriteReport<M>> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  let remaining = (await query.count().get()).data().count;
+  const writer = createWriter(options);
+  const results: BulkWriteItemResult<M>[] = [];
+  let last: QueryDocumentSnapshot<M> | undefined;
+  try {
+    while (remaining > 0) {
+      let page = query.limit(Math.min(pageSize, remaining));
+      if (last) page = page.startAfter(last);
+      const { docs } = await page.get();
+      if (docs.length === 0) break;
+      const tasks = docs.map((doc) => toTask(doc, writer));
+      results.push(...(await runTasks(writer, tasks)));
+      remaining -= docs.length;
+      last = docs[docs.length - 1];
+    }
+  } finally {
+    await writer.close();
+  }
+  return toReport(results);
+}
+
+/**
+ * @internal Implementation of `BaseModel.insertMany`: validates each instance,
+ * runs `beforeSave`/`afterSave` and creates the documents with a BulkWriter, in
+ * pages of `options.pageSize` instances. Documents with `@Unique` reservations to
+ * write are committed on their own, in a batch with their reservations.
+ */
+export async function insertMany<M extends BaseModel>(
+  model: BaseModelConstructor,
+  instances: M[],
+  options: BulkWriteOptions = {}
+): Promise<BulkWriteReport<M>> {
+  assertNoContext(model, "insertMany");
+  const versionField = getVersionField(model);
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const writer = createWriter(options);
+
+  const toTask = (instance: M): BulkTask<M> => {
+    const internals = modelInternals(instance);
+    let data: DocumentData = {};
+    return {
+      instance,
+      prepare: async () => {
+        data = await internals.prepareSave();
+        if (versionField) data[versionField] = 1;
+        const docRef = instance.docRef; // Generates the ID if needed
+        const unique = await prepareUniqueSave(instance, data);
+        const storedData = toStoredData(model, data);
+        if (unique) {
+          return () =>
+            commitWithUniqueWrites(unique, (batch) =>
+              batch.create(docRef, storedData)
+            );
+        }
+        return () => writer.create(docRef, storedData);
+      },
+      complete: async (result) => {
+        await internals.completeSave(data);
+        await instance.afterSave(result);
+      },
+    };
+  };
+  const results: BulkWriteItemResult<M>[] = [];
+  try {
+    for (let start = 0; start < instances.length; start += pageSize) {
+      const page = instances.slice(start, start + pageSize);
+      results.push(...(await runTasks(writer, page.map(toTask))));
+    }
+  } finally {
+    await writer.close();
+  }
+  return toReport(results);
+}
+
+/**
+ * @internal Implementation of `BaseModel.updateMany`: applies the same update to
+ * every document matching `query`, running `beforeUpdate`/`afterUpdate` per document.
+ * Payloads are validated like in `update()`; invalid documents are reported as failures.
+ * Versioned models get their version incremented under an `updateTime` precondition.
+ */
+export async function updateMany<M extends BaseModel>(
+  model: BaseModelConstructor,
+  query: Query<M>,
+  updateData: UpdateData<any>,
+  options: BulkWriteOptions = {}
+): Promise<BulkWriteReport<M>> {
+  assertNoContext(model, "updateMany");
+  const versionField = getVersionField(model);
+
+  return runPaged(query, options, (doc, writer): BulkTask<M> => {
+    const instance = doc.data();
+    const internals = modelInternals(instance);
+    const cleanUpdateData = internals.prepareUpdate(updateData);
+    return {
+      instance,
+      prepare: async () => {
+        await instance.beforeUpdate(cleanUpdateData);
+        internals.validateUpdate(cleanUpdateData);
+        const unique = await prepareUniqueUpdate(instance, cleanUpdateData);
+        if (!versionField) {
+          const args = toUpdateArgs(toStoredData(model, cleanUpdateData));
+          if (unique) {
+            return () =>
+              commitWithUniqueWrites(unique, (batch) =>
+                batch.update(doc.ref, ...args)
+              );
+          }
+          return () => writer.update(doc.ref, ...args);
+        }
+        const args = toUpdateArgs(
+          toStoredData(model, {
+            ...cleanUpdateData,
+            [versionField]: FieldValue.increment(1),
+          })
+        );
+        const precondition = { lastUpdateTime: doc.updateTime };
+        if (unique) {
+          return () =>
+            commitWithUniqueWrites(unique, (batch) =>
+              batch.update(doc.ref, ...args, precondition)
+            );
+        }
+        return () => writer.update(doc.ref, ...args, precondition);
+      },
+      complete: async (result) => {
+        await internals.completeUpdate(cleanUpdateData);
+        await instance.afterUpdate(result, cleanUpdateData);
+      },
+    };
+  });
+}
+
+/**
+ * @internal Implementation of `BaseModel.deleteMany`: deletes every document
+ * matching `query`, running `beforeDelete`/`afterDelete` per document. Models with
+ * `@SoftDelete` are stamped instead of removed unless `force` is set. Removed
+ * documents cascade to the children flagged with `cascade` on their decorators,
+ * deleted through the same BulkWriter once their parent is gone.
+ */
+export async function deleteMany<M extends BaseModel>(
+  model: BaseModelConstructor,
+  query: Query<M>,
+  options: BulkWriteOptions & { force?: boolean } = {}
+): Promise<BulkWriteReport<M>> {
+  assertNoContext(model, "deleteMany");
+  const softDelete = options.force ? undefined : getSoftDeleteMetadata(model);
+  const deletedAt = Timestamp.now();
+
+  return runPaged(query, options, (doc, writer): BulkTask<M> => {
+    const instance = doc.data();
+    let cascade: CascadeTarget[] = [];
+    return {
+      instance,
+      prepare: async () => {
+        await instance.beforeDelete();
+        if (softDelete) {
+          const field = toStoredPath(model, softDelete.field);
+          return () => writer.update(doc.ref, { [field]: deletedAt });
+        }
+        cascade = prepareCascade(instance);
+        const unique = await prepareUniqueRelease(instance);
+        if (unique) {
+          return () =>
+            commitWithUniqueWrites(unique, (batch) => batch.delete(doc.ref));
+        }
+        return () => writer.delete(doc.ref);
+      },
+      complete: async (result) => {
+        if (softDelete) {
+          modelInternals(instance).setTrackedField(softDelete.field, deletedAt);
+        } else {
+          await deleteChildren(instance, cascade, writer);
+          modelInternals(instance).markDeleted();
+        }
+        await instance.afterDelete(result, doc.id);
+      },
+    };
+  });
+}
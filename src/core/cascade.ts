@@ -0,0 +1,177 @@
+import {
+  BulkWriter,
+  CollectionReference,
+  DocumentReference,
+  WriteResult,
+} from "firebase-admin/firestore";
+import { getFirestoreInstance } from "../config/firestore-instance";
+import { BaseModel, modelInternals } from "./base-model";
+import { transactionContext } from "./context";
+import { SUBCOL_DOC_KEY, SUBCOL_KEY } from "./decorators";
+import {
+  BaseModelConstructor,
+  DeleteOptions,
+  SubCollectionDocMetadata,
+  SubCollectionMetadata,
+} from "./types";
+
+/** @internal A declared child location of a document, resolved for cascading. */
+export interface CascadeTarget {
+  model: BaseModelConstructor;
+  ref: CollectionReference | DocumentReference;
+  childHooks: boolean;
+}
+
+/**
+ * Resolves the children of `instance` to delete. `options.cascade` set to true or
+ * false selects all or none of the declared children; when omitted, each
+ * decorator's own `cascade` flag decides.
+ */
+function cascadeTargets(
+  instance: BaseModel,
+  options: DeleteOptions
+): CascadeTarget[] {
+  if (options.cascade === false) return [];
+  const ctor = instance.constructor as Function;
+  const subcollections: SubCollectionMetadata[] =
+    Reflect.getOwnMetadata(SUBCOL_KEY, ctor) || [];
+  const subcollectionDocs: SubCollectionDocMetadata[] =
+    Reflect.getOwnMetadata(SUBCOL_DOC_KEY, ctor) || [];
+  const selected = (meta: SubCollectionMetadata | SubCollectionDocMetadata) =>
+    options.cascade === true || meta.cascade === true;
+  const childHooks = (meta: SubCollectionMetadata | SubCollectionDocMetadata) =>
+    options.childHooks ?? meta.childHooks ?? false;
+
+  const docRef = instance.docRef;
+  return [
+    ...subcollections.filter(selected).map((meta) => ({
+      model: meta.model(),
+      ref: docRef.collection(meta.name),
+      childHooks: childHooks(meta),
+    })),
+    ...subcollectionDocs.filter(selected).map((meta) => ({
+      model: meta.model(),
+      ref: docRef.collection(meta.subcollectionName).doc(meta.docId),
+      childHooks: childHooks(meta),
+    })),
+  ];
+}
+
+/**
+ * Deletes each target. Without hooks, `recursiveDelete` removes everything below the
+ * target; with hooks, children are loaded as models and walked through their own
+ * declared subcollections. Returns the pending `afterDelete` calls, to run once the
+ * writer has flushed.
+ */
+async function deleteTargets(
+  writer: BulkWriter,
+  parent: BaseModel,
+  targets: CascadeTarget[]
+): Promise<(() => Promise<void>)[]> {
+  const db = getFirestoreInstance();
+  const afterHooks: (() => Promise<void>)[] = [];
+
+  for (const target of targets) {
+    if (!target.childHooks) {
+      if (target.ref instanceof CollectionReference) {
+        await db.recursiveDelete(target.ref, writer);
+      } else if ((await target.ref.get()).exists) {
+        await db.recursiveDelete(target.ref, writer);
+      }
+      continue;
+    }
+
+    const children: BaseModel[] = [];
+    if (target.ref instanceof CollectionReference) {
+      const snapshot = await target.ref
+        .withConverter(target.model._getFirestoreConverter())
+        .get();
+      children.push(...snapshot.docs.map((doc) => doc.data()));
+    } else {
+      const child = target.model._fromFirestore(await target.ref.get());
+      if (child) children.push(child);
+    }
+
+    for (const child of children) {
+      (child as any).__parent = parent;
+      await child.beforeDelete();
+      // Everything below a removed document goes too, whatever its own flags say
+      afterHooks.push(
+        ...(await deleteTargets(
+          writer,
+          child,
+          cascadeTargets(child, { cascade: true, childHooks: true })
+        ))
+      );
+
+      const originalId = child.id!;
+      const write = writer.delete(child.docRef);
+      write.catch(() => {}); // Surfaced when the hook awaits it
+      afterHooks.push(async () => {
+        const result: WriteResult = await write;
+        modelInternals(child).markDeleted();
+        await child.afterDelete(result, originalId);
+      });
+    }
+  }
+  return afterHooks;
+}
+
+/**
+ * @internal Resolves the subcollection children of `instance` selected by `options`
+ * and the `cascade` flags of `@SubCollection`/`@SubCollectionDoc`. Called before the
+ * parent is deleted, so nothing is written when the cascade is refused.
+ * @throws {Error} If there is something to cascade inside `runInTransaction` or `runInBatch`.
+ */
+export function prepareCascade(
+  instance: BaseModel,
+  options: DeleteOptions = {}
+): CascadeTarget[] {
+  const targets = cascadeTargets(instance, options);
+  if (targets.length > 0 && transactionContext.getStore()) {
+    throw new Error(
+      `[${instance.constructor.name}] Cascade deletes cannot run inside runInTransaction or runInBatch.`
+    );
+  }
+  return targets;
+}
+
+/**
+ * @internal Deletes the children resolved by `prepareCascade` with `writer`, then
+ * runs the `afterDelete` hooks of those loaded for `childHooks`. Called once the
+ * parent is deleted: a failure leaves children behind, never a parent without them.
+ */
+export async function deleteChildren(
+  parent: BaseModel,
+  targets: CascadeTarget[],
+  writer: BulkWriter
+): Promise<void> {
+  if (targets.length === 0) return;
+  const afterHooks = await deleteTargets(writer, parent, targets);
+  await writer.flush();
+  for (const afterHook of afterHooks) {
+    await afterHook();
+  }
+}
+
+/**
+ * @internal `deleteChildren` with a BulkWriter of its own.
+ * Returns the number of documents removed.
+ */
+export async function deleteChildrenCounted(
+  parent: BaseModel,
+  targets: CascadeTarget[]
+): Promise<number> {
+  if (targets.length === 0) return 0;
+  const writer = getFirestoreInstance().bulkWriter();
+  let deletedCount = 0;
+  writer.onWriteResult(() => {
+    deletedCount++;
+  });
+  try {
+    await deleteChildren(parent, targets, writer);
+  } finally {
+    await writer.close();
+  }
+  return deletedCount;
+}
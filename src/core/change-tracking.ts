@@ -0,0 +1,331 @@
+import {
+  DocumentData,
+  DocumentReference,
+  FieldPath,
+  FieldValue,
+  GeoPoint,
+  Timestamp,
+} from "firebase-admin/firestore";
+
+/** Old and new value of a changed field (see `BaseModel.getChanges`). */
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+/** @internal */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * @internal Deep-copies plain objects and arrays; Firestore value types
+ * (Timestamp, GeoPoint, DocumentReference, ...) are immutable and kept as is.
+ */
+export function cloneData<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneData) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      copy[key] = cloneData(entry);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/** Whether a map key must be quoted to be a segment of a field path string. */
+function needsQuoting(segment: string): boolean {
+  return /[.`\\]/.test(segment);
+}
+
+/**
+ * @internal Joins map keys into a field path string. Keys holding a `.` (e.g. an
+ * email) are quoted with backticks, as Firestore formats `FieldPath`s, so the path
+ * still designates them: `quotas.\`example.com\``.
+ */
+export function joinPath(segments: string[]): string {
+  return segments
+    .map((segment) =>
+      needsQuoting(segment)
+        ? `\`${segment.replace(/[`\\]/g, (c) => `\\${c}`)}\``
+        : segment
+    )
+    .join(".");
+}
+
+/**
+ * @internal Splits a field path string into its segments, the inverse of `joinPath`:
+ * backtick-quoted segments are kept whole.
+ * @throws Error If a quoted segment is malformed.
+ */
+export function splitPath(path: string): string[] {
+  if (!path.includes("`")) return path.split(".");
+  const segments: string[] = [];
+  let i = 0;
+  for (;;) {
+    let segment = "";
+    if (path[i] === "`") {
+      for (i++; i < path.length && path[i] !== "`"; i++) {
+        if (path[i] === "\\") i++;
+        segment += path[i];
+      }
+      if (i++ >= path.length) {
+        throw new Error(`Invalid field path '${path}': unclosed backtick.`);
+      }
+    } else {
+      while (i < path.length && path[i] !== ".") segment += path[i++];
+    }
+    segments.push(segment);
+    if (i >= path.length) return segments;
+    if (path[i++] !== ".") {
+      throw new Error(`Invalid field path '${path}'.`);
+    }
+  }
+}
+
+/**
+ * @internal The arguments of a Firestore `update()` writing `data`, whose keys are
+ * field path strings: each key is passed as a `FieldPath`, so quoted segments are
+ * written to the map key they name instead of being split on their dots.
+ */
+export function toUpdateArgs(
+  data: DocumentData
+): [FieldPath, unknown, ...unknown[]] {
+  const args = Object.entries(data).flatMap(([path, value]) => [
+    new FieldPath(...splitPath(path)),
+    value,
+  ]);
+  return args as [FieldPath, unknown, ...unknown[]];
+}
+
+/** @internal Structural equality for Firestore values. */
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof FieldValue || b instanceof FieldValue) return false;
+  if (
+    (a instanceof Timestamp && b instanceof Timestamp) ||
+    (a instanceof GeoPoint && b instanceof GeoPoint) ||
+    (a instanceof DocumentReference && b instanceof DocumentReference)
+  ) {
+    return a.isEqual(b as any);
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqualValue(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isEqualValue(a[key], b[key])) return false;
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * @internal Diffs two documents, descending into nested maps so that changes are
+ * reported on dotted field paths (`address.city`, with keys holding a `.` quoted
+ * by `joinPath`). Arrays and other values are compared as a whole.
+ */
+export function diffData(
+  before: DocumentData,
+  after: DocumentData,
+  prefix: string[] = []
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    const segments = [...prefix, key];
+    const path = joinPath(segments);
+    const oldValue = before[key];
+    const newValue = after[key];
+    if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+      Object.assign(changes, diffData(oldValue, newValue, segments));
+    } else if (!isEqualValue(oldValue, newValue)) {
+      changes[path] = { old: oldValue, new: newValue };
+    }
+  }
+  return changes;
+}
+
+/**
+ * @internal Flattens nested maps into dotted field paths, so that an `update()` merges
+ * them like `set(data, { merge: true })` instead of replacing them. Arrays, empty maps
+ * and other values are kept as a whole.
+ */
+export function flattenData(
+  data: DocumentData,
+  prefix: string[] = []
+): DocumentData {
+  const flat: DocumentData = {};
+  for (const [key, value] of Object.entries(data)) {
+    const segments = [...prefix, key];
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.assign(flat, flattenData(value, segments));
+    } else {
+      flat[joinPath(segments)] = value;
+    }
+  }
+  return flat;
+}
+
+/** @internal Reads the value at a dotted field path, `undefined` when it is missing. */
+export function readPath(data: DocumentData, path: string): unknown {
+  let value: any = data;
+  for (const segment of splitPath(path)) {
+    value = isPlainObject(value) ? value[segment] : undefined;
+  }
+  return value;
+}
+
+/** @internal Whether two dotted field paths are the same field or one is nested in the other. */
+export function isSamePathOrNested(a: string, b: string): boolean {
+  const [x, y] = [splitPath(a), splitPath(b)];
+  const length = Math.min(x.length, y.length);
+  return x.slice(0, length).every((segment, i) => segment === y[i]);
+}
+
+/**
+ * @internal Reads the values at the given dotted field paths, as `set(data, { mergeFields })`
+ * does: each value replaces the stored one as a whole.
+ * @throws Error If a path has no value in `data`.
+ */
+export function pickPaths(data: DocumentData, paths: string[]): DocumentData {
+  const picked: DocumentData = {};
+  for (const path of paths) {
+    const value = readPath(data, path);
+    if (value === undefined) {
+      throw new Error(`Input data is missing for the merge field '${path}'.`);
+    }
+    picked[path] = value;
+  }
+  return picked;
+}
+
+/** @internal Turns dotted field paths back into nested maps (the inverse of `flattenData`). */
+export function expandPaths(flat: DocumentData): DocumentData {
+  const data: DocumentData = {};
+  for (const [path, value] of Object.entries(flat)) {
+    const segments = splitPath(path);
+    const last = segments.pop()!;
+    let target: any = data;
+    for (const segment of segments) {
+      if (!isPlainObject(target[segment])) target[segment] = {};
+      target = target[segment];
+    }
+    target[last] = value;
+  }
+  return data;
+}
+
+/** @internal The operation a `FieldValue` sentinel applies to its field. */
+export type FieldValueOperation =
+  | { kind: "delete" }
+  | { kind: "serverTimestamp" }
+  | { kind: "increment"; operand: number }
+  | { kind: "arrayUnion" | "arrayRemove"; elements: unknown[] };
+
+/**
+ * @internal Reads the operation of a `FieldValue`. `delete()` and `serverTimestamp()`
+ * are recognised with `isEqual`. The SDK has no accessor for the operands of the
+ * other transforms: they are read from its internals here only, and a shape this
+ * code does not know throws rather than being misread.
+ */
+export function readFieldValue(value: FieldValue): FieldValueOperation {
+  if (value.isEqual(FieldValue.delete())) return { kind: "delete" };
+  if (value.isEqual(FieldValue.serverTimestamp())) {
+    return { kind: "serverTimestamp" };
+  }
+  const internals = value as unknown as {
+    methodName?: unknown;
+    operand?: unknown;
+    elements?: unknown;
+  };
+  switch (internals.methodName) {
+    case "FieldValue.increment":
+      if (typeof internals.operand === "number") {
+        return { kind: "increment", operand: internals.operand };
+      }
+      break;
+    case "FieldValue.arrayUnion":
+    case "FieldValue.arrayRemove":
+      if (Array.isArray(internals.elements)) {
+        return {
+          kind:
+            internals.methodName === "FieldValue.arrayUnion"
+              ? "arrayUnion"
+              : "arrayRemove",
+          elements: internals.elements,
+        };
+      }
+      break;
+  }
+  throw new Error(
+    `Unsupported FieldValue (${String(internals.methodName)}): the firebase-admin internals it is read from have changed.`
+  );
+}
+
+/**
+ * @internal Applies an update payload (dotted paths and `FieldValue`s included) to a
+ * copy of `data`, predicting the stored state. `serverTimestamp()` resolves to now.
+ */
+export function applyUpdate(
+  data: DocumentData,
+  updateData: DocumentData
+): DocumentData {
+  const result = cloneData(data);
+  for (const [path, value] of Object.entries(updateData)) {
+    const segments = splitPath(path);
+    const last = segments.pop()!;
+    let target: any = result;
+    for (const segment of segments) {
+      if (!isPlainObject(target[segment])) target[segment] = {};
+      target = target[segment];
+    }
+    if (!(value instanceof FieldValue)) {
+      target[last] = cloneData(value);
+      continue;
+    }
+    const current = target[last];
+    const operation = readFieldValue(value);
+    switch (operation.kind) {
+      case "delete":
+        delete target[last];
+        break;
+      case "serverTimestamp":
+        target[last] = Timestamp.now();
+        break;
+      case "increment":
+        target[last] =
+          (typeof current === "number" ? current : 0) + operation.operand;
+        break;
+      case "arrayUnion": {
+        const items: unknown[] = Array.isArray(current) ? [...current] : [];
+        for (const element of operation.elements) {
+          if (!items.some((item) => isEqualValue(item, element))) {
+            items.push(element);
+          }
+        }
+        target[last] = items;
+        break;
+      }
+      case "arrayRemove":
+        target[last] = (Array.isArray(current) ? current : []).filter(
+          (item) =>
+            !operation.elements.some((element) => isEqualValue(item, element))
+        );
+        break;
+    }
+  }
+  return result;
+}
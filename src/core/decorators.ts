@@ -1,5 +1,6 @@
 import * as admin from "firebase-admin";
 import {
+  FieldValue,
   GeoPoint as FireGeoPoint,
   Timestamp as FireTimestamp,
 } from "firebase-admin/firestore";
@@ -8,34 +9,62 @@ import { z, ZodTypeAny } from "zod";
 import { BaseModel } from "./base-model";
 import {
   BaseModelConstructor,
+  CascadeOptions,
+  CollectionOptions,
+  DateFieldMetadata,
+  EmbeddedConstructor,
+  EmbeddedMetadata,
+  FieldDefault,
+  FieldDefaultMetadata,
+  HasManyMetadata,
+  HasManyOptions,
+  NamingStrategy,
   RelationMetadata,
+  SoftDeleteMetadata,
   SubModelMetadata,
+  UniqueConstraintMetadata,
+  VirtualMetadata,
+  VirtualOptions,
   SubCollectionMetadata,
   SubCollectionDocMetadata,
+  TransformMetadata,
+  Transformer,
 } from "./types"; // Import type from types.ts
-import { Validate } from "./validation";
+import { getObjectSchema, Validate } from "./validation";
 import DocumentReference = admin.firestore.DocumentReference;
 
 export const SUBCOL_DOC_KEY = Symbol("subcollectionDocs");
 export const COLLECTION_KEY = Symbol("collectionName");
 export const RELATION_KEY = Symbol("relations");
 export const TIMESTAMP_KEY = Symbol("timestamps");
-export const BOOLEAN_KEY = Symbol("booleans");
+export const DEFAULT_KEY = Symbol("defaults");
 export const SUBCOL_KEY = Symbol("subcollections");
 export const SUBMODEL_KEY = Symbol("subcollectionModel");
+export const SOFT_DELETE_KEY = Symbol("softDelete");
+export const VERSION_KEY = Symbol("version");
+export const HAS_MANY_KEY = Symbol("hasMany");
+export const UNIQUE_KEY = Symbol("unique");
+export const VIRTUAL_KEY = Symbol("virtual");
+export const FIELD_NAME_KEY = Symbol("fieldNames");
+export const NAMING_KEY = Symbol("naming");
+export const EMBEDDED_KEY = Symbol("embedded");
+export const TRANSFORM_KEY = Symbol("transform");
+export const DATE_KEY = Symbol("dates");
 
 /**
  * Class decorator to define the Firestore collection name for a model.
  * @param name The name of the Firestore collection.
+ * @param options.naming Derives the Firestore field names of the properties, e.g.
+ * `'snake_case'` stores `createdAt` as `created_at`. A property's `name` option takes precedence.
  * @example
  * ```typescript
- * @Collection('users')
+ * @Collection('users', { naming: 'snake_case' })
  * class User extends BaseModel {
  * // ...
  * }
  * ```
  */
-export function Collection(name: string) {
+export function Collection(name: string, options: CollectionOptions = {}) {
   return function <T extends { new (...args: any[]): {} }>(constructor: T) {
     if (!name || typeof name !== "string") {
       throw new Error(
@@ -43,6 +72,76 @@ export function Collection(name: string) {
       );
     }
     Reflect.defineMetadata(COLLECTION_KEY, name, constructor);
+    if (options.naming) {
+      Reflect.defineMetadata(NAMING_KEY, options.naming, constructor);
+    }
+  };
+}
+
+/** Registers the Firestore field name of a property, given by a decorator's `name` option. */
+function defineFieldName(
+  target: any,
+  propertyName: string,
+  name: string | undefined
+) {
+  if (name === undefined) return;
+  if (!name || name.includes(".") || name.startsWith("_")) {
+    throw new Error(
+      `Invalid field name '${name}' for property '${propertyName}'. Names must be non-empty, without dots nor a leading underscore.`
+    );
+  }
+  const names: Record<string, string> =
+    Reflect.getOwnMetadata(FIELD_NAME_KEY, target.constructor) || {};
+  names[propertyName] = name;
+  Reflect.defineMetadata(FIELD_NAME_KEY, names, target.constructor);
+}
+
+/**
+ * Maps a property to a Firestore field of another name. Field decorators and
+ * `@Relation`/`@RelationArray` accept the same `name` option; `@Field` covers the
+ * other properties (e.g. a `@VersionField` or the `@SoftDelete` field).
+ * @example
+ * ```typescript
+ * @Field({ name: 'created_at' })
+ * @TimestampField()
+ * createdAt?: Timestamp;
+ * ```
+ */
+export function Field(options: { name: string }) {
+  return function (target: any, propertyName: string) {
+    defineFieldName(target, propertyName, options.name);
+  };
+}
+
+/**
+ * Class decorator enabling soft deletes: `delete()` stamps `field` with the deletion
+ * time instead of removing the document, and finders exclude stamped documents
+ * unless `withDeleted`/`onlyDeleted` is passed. `restore()` clears the stamp and
+ * `forceDelete()` removes the document for good.
+ * The field is validated as an optional `Timestamp | null` and written as `null` on save,
+ * so documents created before enabling soft deletes need it backfilled to be found.
+ * @param options.field The property holding the deletion timestamp. Defaults to `deletedAt`.
+ * @example
+ * ```typescript
+ * @SoftDelete({ field: 'deletedAt' })
+ * @Collection('users')
+ * class User extends BaseModel {
+ *   deletedAt?: Timestamp | null;
+ * }
+ * ```
+ */
+export function SoftDelete(options: { field?: string } = {}) {
+  const field = options.field ?? "deletedAt";
+  return function <T extends { new (...args: any[]): {} }>(constructor: T) {
+    Validate(z.instanceof(FireTimestamp).nullable().optional())(
+      constructor.prototype,
+      field
+    );
+    Reflect.defineMetadata(
+      SOFT_DELETE_KEY,
+      { field } as SoftDeleteMetadata,
+      constructor
+    );
   };
 }
 
@@ -50,12 +149,13 @@ export function Collection(name: string) {
  * Decorator to link a property to a specific document within a subcollection.
  * @param modelGetter A function returning the constructor of the model for the document.
  * @param docId The fixed ID of the document within the subcollection.
- * @param options Options object, must include the subcollection name.
+ * @param options Options object, must include the subcollection name. `cascade` deletes
+ * the document (and everything below it) when the parent is deleted.
  */
 export function SubCollectionDoc<T extends typeof BaseModel>(
   modelGetter: () => BaseModelConstructor<T>,
   docId: string,
-  options: { subcollection: string }
+  options: { subcollection: string } & CascadeOptions
 ) {
   return (target: any, propertyName: string) => {
     const ctor = target.constructor as Function;
@@ -71,6 +171,8 @@ export function SubCollectionDoc<T extends typeof BaseModel>(
       docId,
       subcollectionName: options.subcollection,
       model: modelGetter,
+      cascade: options.cascade,
+      childHooks: options.childHooks,
     });
 
     Reflect.defineMetadata(SUBCOL_DOC_KEY, list, ctor);
@@ -91,23 +193,85 @@ export function SubCollectionModel(
   };
 }
 
+/**
+ * Property decorator to declare a subcollection of the model's documents.
+ * @param modelGetter A function returning the constructor of the subcollection's model.
+ * @param nameOrOptions The subcollection name (defaults to the property name), or an
+ * options object with `name` and the cascade flags (`cascade`, `childHooks`).
+ * @example
+ * ```typescript
+ * @SubCollection(() => GiftCard, { name: 'giftCards', cascade: true })
+ * giftCards?: GiftCard[];
+ * ```
+ */
 export function SubCollection<T extends typeof BaseModel>(
   modelGetter: () => BaseModelConstructor<T>,
-  name?: string
+  nameOrOptions?: string | ({ name?: string } & CascadeOptions)
 ) {
+  const options =
+    typeof nameOrOptions === "string"
+      ? { name: nameOrOptions }
+      : nameOrOptions ?? {};
   return (target: any, propertyName: string) => {
     const ctor = target.constructor as Function;
     const list: SubCollectionMetadata[] =
       Reflect.getOwnMetadata(SUBCOL_KEY, ctor) || [];
     list.push({
       propertyName,
-      name: name ?? propertyName,
+      name: options.name ?? propertyName,
       model: modelGetter,
+      cascade: options.cascade,
+      childHooks: options.childHooks,
     });
     Reflect.defineMetadata(SUBCOL_KEY, list, ctor);
   };
 }
 
+/**
+ * Property decorator for the inverse side of a `@Relation`: the documents of another
+ * model whose `foreignKey` field references this document. Nothing is stored on this
+ * document; the property is filled by `populate` and read with `hasMany()`/`countHasMany()`.
+ * @param relatedModelGetter A function returning the constructor of the related model.
+ * @param foreignKey The related model's field holding a `DocumentReference` to this document.
+ * @param options Default ordering and limit of the related documents.
+ * @example
+ * ```typescript
+ * @Collection('departments')
+ * class Department extends BaseModel {
+ *   @HasMany(() => User, 'department', { orderBy: { field: 'name' } })
+ *   users?: User[];
+ * }
+ * ```
+ */
+export function HasMany<T extends typeof BaseModel>(
+  relatedModelGetter: () => BaseModelConstructor<T>,
+  foreignKey: string,
+  options: HasManyOptions = {}
+) {
+  if (typeof relatedModelGetter !== "function" || !foreignKey) {
+    throw new Error(
+      "@HasMany decorator requires a function returning the related model constructor and a foreign key field name."
+    );
+  }
+
+  return function (target: any, propertyName: string) {
+    const list: HasManyMetadata[] =
+      Reflect.getOwnMetadata(HAS_MANY_KEY, target.constructor) || [];
+    list.push({
+      propertyName,
+      relatedModel: relatedModelGetter,
+      foreignKey,
+      ...options,
+    });
+    Reflect.defineMetadata(HAS_MANY_KEY, list, target.constructor);
+  };
+}
+
+/** Retrieves the `@HasMany` metadata declared on a model class and its ancestors. */
+export function getHasManyMetadata(target: Function): HasManyMetadata[] {
+  return collectOwnMetadata<HasManyMetadata>(HAS_MANY_KEY, target, byProperty);
+}
+
 /**
  * Property decorator to define a relationship stored as a DocumentReference.
  * @param relatedModelGetter A function returning the constructor of the related model (e.g., `() => User`). Essential for handling circular dependencies.
@@ -126,7 +290,7 @@ export function SubCollection<T extends typeof BaseModel>(
  */
 export function Relation<T extends typeof BaseModel>(
   relatedModelGetter: () => BaseModelConstructor<T>,
-  options: { lazy?: boolean } = { lazy: true }
+  options: { lazy?: boolean; name?: string } = { lazy: true }
 ) {
   if (typeof relatedModelGetter !== "function") {
     throw new Error(
@@ -150,58 +314,438 @@ export function Relation<T extends typeof BaseModel>(
     });
 
     Reflect.defineMetadata(RELATION_KEY, relations, target.constructor);
+    defineFieldName(target, propertyName, options.name);
+  };
+}
+
+/**
+ * Property decorator for a many-to-many relationship stored as an array of DocumentReferences.
+ * The array may mix references and instances of the related model: instances are stored as
+ * references, and `populate` replaces references with instances. Elements are validated, so
+ * no `@ArrayField`/`@DocumentReferenceField` is needed. Use `addRelation`/`removeRelation` to
+ * change the stored array without rewriting it.
+ * @param relatedModelGetter A function returning the constructor of the related model (e.g., `() => Tag`).
+ * @example
+ * ```typescript
+ * @Collection('posts')
+ * class Post extends BaseModel {
+ *   @RelationArray(() => Tag)
+ *   tags?: (DocumentReference | Tag)[];
+ * }
+ * ```
+ */
+export function RelationArray<T extends typeof BaseModel>(
+  relatedModelGetter: () => BaseModelConstructor<T>,
+  options: { lazy?: boolean; required?: boolean; name?: string } = {}
+) {
+  if (typeof relatedModelGetter !== "function") {
+    throw new Error(
+      "@RelationArray decorator requires a function argument that returns the related model constructor."
+    );
+  }
+
+  const element = z.union([
+    z.instanceof(FireDocRefCtor).refine(
+      (ref: DocumentReference) =>
+        ref.parent.id ===
+        getCollectionName(relatedModelGetter())?.split("/").pop(),
+      () => ({
+        message: `Expected a reference to a ${relatedModelGetter().name} document`,
+      })
+    ),
+    z.lazy(() => z.instanceof(relatedModelGetter())),
+  ]);
+  let schema: ZodTypeAny = z.array(element);
+  if (!options.required) schema = schema.optional();
+
+  return function (target: any, propertyName: string) {
+    Relation(relatedModelGetter, options)(target, propertyName);
+    const relations: RelationMetadata[] = Reflect.getOwnMetadata(
+      RELATION_KEY,
+      target.constructor
+    );
+    relations.find((r) => r.propertyName === propertyName)!.array = true;
+    Validate(schema)(target, propertyName);
+  };
+}
+
+/**
+ * Declares a uniqueness constraint. On a property, `@Unique()` makes its value unique
+ * within the collection; on a class, `@Unique(['firstName', 'lastName'])` makes the
+ * combination unique. Documents missing any of the values are not constrained.
+ * `save()`, `update()` and hard deletes maintain one reservation document per value
+ * in the `_unique` collection, and writes of a taken value throw `UniqueConstraintError`.
+ * Soft-deleted documents keep their reservations. Inside `runInTransaction` the
+ * reservations are read through the transaction, before any write it queued.
+ * @param fields The fields of a composite constraint (class form only).
+ * @example
+ * ```typescript
+ * @Collection('users')
+ * @Unique(['firstName', 'lastName'])
+ * class User extends BaseModel {
+ *   @Unique()
+ *   @EmailField()
+ *   email!: string;
+ * }
+ * ```
+ */
+export function Unique(fields?: string[]) {
+  return function (target: any, propertyName?: string) {
+    const ctor = propertyName === undefined ? target : target.constructor;
+    if (propertyName !== undefined && fields) {
+      throw new Error(
+        `@Unique on property '${propertyName}' takes no fields; declare composite constraints on the class.`
+      );
+    }
+    if (propertyName === undefined && !fields?.length) {
+      throw new Error(
+        `@Unique on class ${ctor.name} requires the fields of the composite constraint.`
+      );
+    }
+    const constraints: UniqueConstraintMetadata[] =
+      Reflect.getOwnMetadata(UNIQUE_KEY, ctor) || [];
+    constraints.push({ fields: fields ?? [propertyName!] });
+    Reflect.defineMetadata(UNIQUE_KEY, constraints, ctor);
+  };
+}
+
+/**
+ * Marks a getter or property as computed: it is never written to Firestore nor
+ * validated, but is included in `toJSON()`. Getter-only virtuals are skipped when
+ * data (e.g. a previous `toJSON()` output) is passed to the constructor.
+ * @param options.dependsOn Persisted fields the value is computed from, so
+ * `isDirty('fullName')` reports changes to them.
+ * @example
+ * ```typescript
+ * @Collection('users')
+ * class User extends BaseModel {
+ *   @StringField() firstName?: string;
+ *   @StringField() lastName?: string;
+ *
+ *   @Virtual({ dependsOn: ['firstName', 'lastName'] })
+ *   get fullName() {
+ *     return `${this.firstName} ${this.lastName}`;
+ *   }
+ * }
+ * ```
+ */
+export function Virtual(options: VirtualOptions = {}) {
+  return function (
+    target: any,
+    propertyName: string,
+    descriptor?: PropertyDescriptor
+  ) {
+    const virtuals: VirtualMetadata[] =
+      Reflect.getOwnMetadata(VIRTUAL_KEY, target.constructor) || [];
+    virtuals.push({
+      propertyName,
+      dependsOn: options.dependsOn ?? [],
+      readonly: !!descriptor?.get && !descriptor.set,
+    });
+    Reflect.defineMetadata(VIRTUAL_KEY, virtuals, target.constructor);
+  };
+}
+
+/**
+ * Converts a property between its domain and Firestore shapes: `toFirestore` runs on
+ * save, update, query values and `toJSON()`, `fromFirestore` when documents are loaded.
+ * `null` and `undefined` are not passed to the transformer. Validation checks the
+ * stored shape, so the field decorator describes the converted value.
+ * @param transformer The functions, or the name of a converter registered with `registerConverter`.
+ * @example
+ * ```typescript
+ * @Collection('invoices')
+ * class Invoice extends BaseModel {
+ *   @StringField()
+ *   @Transform({ toFirestore: (d) => d.toString(), fromFirestore: (s) => new Decimal(s) })
+ *   total?: Decimal;
+ *
+ *   @ArrayField(z.string())
+ *   @Transform('set') // registerConverter('set', ...)
+ *   tags?: Set<string>;
+ * }
+ * ```
+ */
+export function Transform(transformer: Transformer | string) {
+  return function (target: any, propertyName: string) {
+    const list: TransformMetadata[] =
+      Reflect.getOwnMetadata(TRANSFORM_KEY, target.constructor) || [];
+    list.push({ propertyName, transformer });
+    Reflect.defineMetadata(TRANSFORM_KEY, list, target.constructor);
+  };
+}
+
+/**
+ * Property decorator for a sub-document stored as a map. The embedded class is a plain
+ * class (no `@Collection`, no `BaseModel`) whose field decorators validate the nested
+ * values as part of the parent's schema. Loaded and constructed models hold instances of
+ * it, and nested fields can be updated with dotted paths (`'address.city'`).
+ * @param embeddedClassGetter A function returning the embedded class (e.g., `() => Address`).
+ * @example
+ * ```typescript
+ * class Address {
+ *   @StringField({ required: true }) street!: string;
+ *   @StringField() city?: string;
+ * }
+ *
+ * @Collection('users')
+ * class User extends BaseModel {
+ *   @Embedded(() => Address)
+ *   address?: Address;
+ * }
+ * ```
+ */
+export function Embedded<T>(
+  embeddedClassGetter: () => EmbeddedConstructor<T>,
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<T>;
+    name?: string;
+  } = {}
+) {
+  let schema: ZodTypeAny = z.lazy(() => getObjectSchema(embeddedClassGetter()));
+  if (!opts.required) schema = schema.optional();
+  return embedded(embeddedClassGetter, false, schema, opts);
+}
+
+/**
+ * Property decorator for an array of sub-documents, each validated and hydrated like an
+ * `@Embedded` value. Arrays are written as a whole: Firestore has no dotted paths into
+ * array elements.
+ * @param embeddedClassGetter A function returning the embedded class (e.g., `() => LineItem`).
+ * @example
+ * ```typescript
+ * @Collection('orders')
+ * class Order extends BaseModel {
+ *   @EmbeddedArray(() => LineItem, { default: [] })
+ *   items!: LineItem[];
+ * }
+ * ```
+ */
+export function EmbeddedArray<T>(
+  embeddedClassGetter: () => EmbeddedConstructor<T>,
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<T[]>;
+    name?: string;
+  } = {}
+) {
+  let schema: ZodTypeAny = z.array(
+    z.lazy(() => getObjectSchema(embeddedClassGetter()))
+  );
+  if (!opts.required) schema = schema.optional();
+  return embedded(embeddedClassGetter, true, schema, opts);
+}
+
+function embedded(
+  embeddedClassGetter: () => EmbeddedConstructor,
+  array: boolean,
+  schema: ZodTypeAny,
+  opts: { default?: FieldDefault<unknown>; name?: string }
+) {
+  if (typeof embeddedClassGetter !== "function") {
+    throw new Error(
+      `@${array ? "EmbeddedArray" : "Embedded"} decorator requires a function argument that returns the embedded class.`
+    );
+  }
+  return function (target: any, propertyName: string) {
+    const list: EmbeddedMetadata[] =
+      Reflect.getOwnMetadata(EMBEDDED_KEY, target.constructor) || [];
+    list.push({ propertyName, embeddedClass: embeddedClassGetter, array });
+    Reflect.defineMetadata(EMBEDDED_KEY, list, target.constructor);
+    field(schema, opts)(target, propertyName);
   };
 }
 
 // --- Metadata Accessor Functions (Internal) ---
 
-/** @internal Gets the collection name from metadata, searching prototype chain. */
-export function getCollectionName(target: Function): string | undefined {
+/** @internal The classes of the prototype chain of `target`, subclass first. */
+export function prototypeChain(target: Function): Function[] {
+  const chain: Function[] = [];
   let current: any = target;
   while (current && current !== Object.prototype) {
-    const top = Reflect.getOwnMetadata(COLLECTION_KEY, current);
-    if (typeof top === 'string') {
+    chain.push(current);
+    current = Object.getPrototypeOf(current);
+  }
+  return chain;
+}
+
+/** @internal Gets the collection name from metadata, searching prototype chain. */
+export function getCollectionName(target: Function): string | undefined {
+  return findOwnMetadata(target, (ctor) => {
+    const top = Reflect.getOwnMetadata(COLLECTION_KEY, ctor);
+    if (typeof top === "string") {
       return top;
     }
-
-    const sub = Reflect.getOwnMetadata(SUBMODEL_KEY, current) as
+    const sub = Reflect.getOwnMetadata(SUBMODEL_KEY, ctor) as
       | SubModelMetadata
       | undefined;
-    if (sub) {
-      return sub.subPath;
+    return sub?.subPath;
+  });
+}
+
+/** @internal Gets soft delete metadata, searching prototype chain. */
+export function getSoftDeleteMetadata(
+  target: Function
+): SoftDeleteMetadata | undefined {
+  return findOwnMetadata(target, (ctor) =>
+    Reflect.getOwnMetadata(SOFT_DELETE_KEY, ctor)
+  );
+}
+
+/** @internal Gets the `@VersionField` property name, searching prototype chain. */
+export function getVersionField(target: Function): string | undefined {
+  return findOwnMetadata(target, (ctor) =>
+    Reflect.getOwnMetadata(VERSION_KEY, ctor)
+  );
+}
+
+/**
+ * Collects the metadata arrays stored under `key` along the prototype chain, keeping
+ * one entry per `keyOf` value: subclass definitions take precedence.
+ */
+function collectOwnMetadata<T>(
+  key: symbol,
+  target: Function,
+  keyOf: (meta: T) => string
+): T[] {
+  const list: T[] = [];
+  const seen = new Set<string>();
+  for (const ctor of prototypeChain(target)) {
+    const own: T[] = Reflect.getOwnMetadata(key, ctor) || [];
+    for (const meta of own) {
+      const metaKey = keyOf(meta);
+      if (!seen.has(metaKey)) {
+        seen.add(metaKey);
+        list.push(meta);
+      }
     }
+  }
+  return list;
+}
 
-    current = Object.getPrototypeOf(current);
+/**
+ * Finds the first value `read` returns along the prototype chain (other than
+ * `undefined`): a subclass definition takes precedence.
+ */
+function findOwnMetadata<T>(
+  target: Function,
+  read: (ctor: Function) => T | undefined
+): T | undefined {
+  for (const ctor of prototypeChain(target)) {
+    const value = read(ctor);
+    if (value !== undefined) {
+      return value;
+    }
   }
   return undefined;
 }
 
+const byProperty = (meta: { propertyName: string }) => meta.propertyName;
+
+/**
+ * @internal Gets the `default`s of field decorators, searching prototype chain
+ * (subclass definitions take precedence).
+ */
+export function getFieldDefaults(target: Function): FieldDefaultMetadata[] {
+  return collectOwnMetadata<FieldDefaultMetadata>(
+    DEFAULT_KEY,
+    target,
+    byProperty
+  );
+}
+
+/** @internal Gets the `@Unique` constraints, searching prototype chain. */
+export function getUniqueConstraints(
+  target: Function
+): UniqueConstraintMetadata[] {
+  return collectOwnMetadata<UniqueConstraintMetadata>(
+    UNIQUE_KEY,
+    target,
+    (constraint) => constraint.fields.join(",")
+  );
+}
+
+/**
+ * @internal Gets the Firestore field names given by `name` options, keyed by
+ * property, searching prototype chain (subclass definitions take precedence).
+ */
+export function getFieldNames(target: Function): Record<string, string> {
+  return Object.assign(
+    {},
+    ...prototypeChain(target)
+      .reverse()
+      .map((ctor) => Reflect.getOwnMetadata(FIELD_NAME_KEY, ctor) || {})
+  );
+}
+
+/** @internal Gets the `@Collection` naming strategy, searching prototype chain. */
+export function getNamingStrategy(
+  target: Function
+): NamingStrategy | undefined {
+  return findOwnMetadata(target, (ctor) =>
+    Reflect.getOwnMetadata(NAMING_KEY, ctor)
+  );
+}
+
+/** @internal Gets the `@Virtual` properties, searching prototype chain. */
+export function getVirtualMetadata(target: Function): VirtualMetadata[] {
+  return collectOwnMetadata<VirtualMetadata>(VIRTUAL_KEY, target, byProperty);
+}
+
+/** @internal Gets the `@Embedded`/`@EmbeddedArray` properties, searching prototype chain. */
+export function getEmbeddedMetadata(target: Function): EmbeddedMetadata[] {
+  return collectOwnMetadata<EmbeddedMetadata>(EMBEDDED_KEY, target, byProperty);
+}
+
+/** @internal Gets the `@Transform` properties, searching prototype chain. */
+export function getTransformMetadata(target: Function): TransformMetadata[] {
+  return collectOwnMetadata<TransformMetadata>(
+    TRANSFORM_KEY,
+    target,
+    byProperty
+  );
+}
+
+/** @internal Gets the `@DateField` properties, searching prototype chain. */
+export function getDateFieldMetadata(target: Function): DateFieldMetadata[] {
+  return collectOwnMetadata<DateFieldMetadata>(DATE_KEY, target, byProperty);
+}
+
 /** @internal Gets relation metadata, searching and merging from prototype chain. */
 export function getRelationMetadata(target: Function): RelationMetadata[] {
-  let relations: RelationMetadata[] = [];
-  let currentTarget = target;
-  const definedProperties = new Set<string>(); // Keep track of properties defined lower down
-
-  while (currentTarget && currentTarget !== Object.prototype) {
-    const currentRelations: RelationMetadata[] | undefined =
-      Reflect.getOwnMetadata(RELATION_KEY, currentTarget);
-    if (currentRelations) {
-      currentRelations.forEach((rel) => {
-        // Add relation only if not already defined by a subclass (higher in chain)
-        if (!definedProperties.has(rel.propertyName)) {
-          relations.push(rel);
-          definedProperties.add(rel.propertyName);
-        }
-      });
-    }
-    currentTarget = Object.getPrototypeOf(currentTarget);
-  }
-  // Return relations collected from prototype chain (subclass definitions take precedence)
-  return relations;
+  return collectOwnMetadata<RelationMetadata>(RELATION_KEY, target, byProperty);
+}
+
+/**
+ * Applies the validation schema of a field decorator and registers its `name` and
+ * `default`, assigned to instances on construction and before validation in `save()`
+ * whenever the property is `undefined`.
+ */
+function field(
+  schema: ZodTypeAny,
+  opts: { default?: FieldDefault<unknown>; name?: string }
+) {
+  return function (target: any, propertyName: string) {
+    Validate(schema)(target, propertyName);
+    defineFieldName(target, propertyName, opts.name);
+    if (opts.default === undefined) return;
+    const defaults: FieldDefaultMetadata[] =
+      Reflect.getOwnMetadata(DEFAULT_KEY, target.constructor) || [];
+    defaults.push({ propertyName, value: opts.default });
+    Reflect.defineMetadata(DEFAULT_KEY, defaults, target.constructor);
+  };
 }
 
 export function StringField(
-  opts: { min?: number; max?: number; message?: string; required?: boolean } = {
+  opts: {
+    min?: number;
+    max?: number;
+    message?: string;
+    required?: boolean;
+    default?: FieldDefault<string>;
+    name?: string;
+  } = {
     required: false,
   }
 ) {
@@ -211,20 +755,31 @@ export function StringField(
   if (opts.max != null)
     schema = (schema as any).max(opts.max, { message: opts.message });
   if (!opts.required) schema = schema.optional();
-  return Validate(schema);
+  return field(schema, opts);
 }
 
 export function EmailField(
   message = "Invalid email",
-  opts: { required?: boolean } = { required: false }
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<string>;
+    name?: string;
+  } = { required: false }
 ) {
   let schema: ZodTypeAny = z.string().email({ message });
   if (!opts.required) schema = schema.optional();
-  return Validate(schema);
+  return field(schema, opts);
 }
 
 export function NumberField(
-  opts: { min?: number; max?: number; message?: string; required?: boolean } = {
+  opts: {
+    min?: number;
+    max?: number;
+    message?: string;
+    required?: boolean;
+    default?: FieldDefault<number>;
+    name?: string;
+  } = {
     required: false,
   }
 ) {
@@ -234,31 +789,31 @@ export function NumberField(
   if (opts.max != null)
     schema = (schema as any).max(opts.max, { message: opts.message });
   if (!opts.required) schema = schema.optional();
-  return Validate(schema);
+  return field(schema, opts);
 }
 
 export function BooleanField(
-  opts: { required?: boolean; defaultValue?: boolean } = { required: false }
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<boolean>;
+    name?: string;
+    /** @deprecated Use `default`. */
+    defaultValue?: boolean;
+  } = { required: false }
 ) {
   // Build Zod schema for boolean
   let schema: ZodTypeAny = z.boolean();
   if (!opts.required) schema = schema.optional();
-
-  return function (target: any, propertyName: string) {
-    // Apply validation
-    Validate(schema)(target, propertyName);
-    // Apply defaultNow if requested
-    if (opts.defaultValue) {
-      const existing: any[] =
-        Reflect.getOwnMetadata(BOOLEAN_KEY, target.constructor) || [];
-      existing.push({ prop: propertyName, defaultValue: opts.defaultValue });
-      Reflect.defineMetadata(BOOLEAN_KEY, existing, target.constructor);
-    }
-  };
+  return field(schema, { ...opts, default: opts.default ?? opts.defaultValue });
 }
 
 export function TimestampField(
-  opts: { required?: boolean; autoFill?: boolean } = {
+  opts: {
+    required?: boolean;
+    autoFill?: boolean;
+    default?: FieldDefault<FireTimestamp>;
+    name?: string;
+  } = {
     required: false,
     autoFill: false,
   }
@@ -267,10 +822,9 @@ export function TimestampField(
   let schema: ZodTypeAny = z.instanceof(FireTimestamp);
   if (!opts.required) schema = schema.optional();
 
-  // Decorator combining validation and autoFill metadata
+  // Decorator combining validation, default and autoFill metadata
   return function (target: any, propertyName: string) {
-    // Apply validation
-    Validate(schema)(target, propertyName);
+    field(schema, opts)(target, propertyName);
     // Apply defaultNow if requested
     if (opts.autoFill) {
       const existing: string[] =
@@ -281,30 +835,129 @@ export function TimestampField(
   };
 }
 
+const dateTransformer: Transformer<Date, FireTimestamp> = {
+  toFirestore: (value) =>
+    value instanceof Date ? FireTimestamp.fromDate(value) : value,
+  fromFirestore: (value) =>
+    value instanceof FireTimestamp ? value.toDate() : value,
+};
+
+/**
+ * Defines a property holding a `Date`, stored as a `Timestamp`: assigned `Date`s are
+ * converted on write (and validated as timestamps), and loaded timestamps are converted
+ * back, so the instance always exposes a `Date`.
+ * @param opts.autoFill Set the current date on `save()` when the property is empty.
+ * @param opts.onUpdate Set the current date on every `save()` and `update()`.
+ * @param opts.serverTimestamp Write `FieldValue.serverTimestamp()` instead of the client
+ * clock. The value is read back after direct writes; inside `runInTransaction`/`runInBatch`
+ * it stays unset on the instance.
+ * Inside an `@Embedded` class none of these options are supported.
+ * @example
+ * ```typescript
+ * @Collection('posts')
+ * class Post extends BaseModel {
+ *   @DateField({ autoFill: true })
+ *   createdAt?: Date;
+ *
+ *   @DateField({ onUpdate: true, serverTimestamp: true })
+ *   updatedAt?: Date;
+ * }
+ * ```
+ */
+export function DateField(
+  opts: {
+    required?: boolean;
+    autoFill?: boolean;
+    onUpdate?: boolean;
+    serverTimestamp?: boolean;
+    default?: FieldDefault<Date>;
+    name?: string;
+  } = {}
+) {
+  let schema: ZodTypeAny = z.instanceof(FireTimestamp);
+  if (opts.serverTimestamp) {
+    schema = schema.or(
+      z.custom<FieldValue>(
+        (value) =>
+          value instanceof FieldValue &&
+          value.isEqual(FieldValue.serverTimestamp())
+      )
+    );
+  }
+  if (!opts.required) schema = schema.optional();
+
+  return function (target: any, propertyName: string) {
+    field(schema, opts)(target, propertyName);
+    Transform(dateTransformer)(target, propertyName);
+    const dates: DateFieldMetadata[] =
+      Reflect.getOwnMetadata(DATE_KEY, target.constructor) || [];
+    dates.push({
+      propertyName,
+      autoFill: opts.autoFill ?? false,
+      onUpdate: opts.onUpdate ?? false,
+      serverTimestamp: opts.serverTimestamp ?? false,
+    });
+    Reflect.defineMetadata(DATE_KEY, dates, target.constructor);
+  };
+}
+
+/**
+ * Marks a numeric property as the document version used for optimistic concurrency.
+ * `save()` and `update()` check that the stored version still matches the instance's,
+ * write the next version, and throw a `ConflictError` otherwise.
+ * Instances that never held a version (e.g. `new User({}, id)`) are not checked.
+ * @example
+ * ```typescript
+ * @Collection('articles')
+ * class Article extends BaseModel {
+ *   @VersionField()
+ *   version?: number;
+ * }
+ * ```
+ */
+export function VersionField() {
+  return function (target: any, propertyName: string) {
+    Validate(z.number().int().nonnegative().optional())(target, propertyName);
+    Reflect.defineMetadata(VERSION_KEY, propertyName, target.constructor);
+  };
+}
+
 export function GeoPointField(
-  opts: { required?: boolean } = { required: false }
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<FireGeoPoint>;
+    name?: string;
+  } = { required: false }
 ) {
   let schema: ZodTypeAny = z.instanceof(FireGeoPoint);
   if (!opts.required) schema = schema.optional();
-  return Validate(schema);
+  return field(schema, opts);
 }
 
 export function ArrayField(
   schemaDef: ZodTypeAny,
-  opts: { required?: boolean } = { required: false }
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<unknown[]>;
+    name?: string;
+  } = { required: false }
 ) {
   let arrSchema: ZodTypeAny = z.array(schemaDef);
   if (!opts.required) arrSchema = arrSchema.optional();
-  return Validate(arrSchema);
+  return field(arrSchema, opts);
 }
 
 export function MapField(
   schemaDef: ZodTypeAny,
-  opts: { required?: boolean } = { required: false }
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<Record<string, unknown>>;
+    name?: string;
+  } = { required: false }
 ) {
   let mapSchema: ZodTypeAny = z.record(z.string(), schemaDef);
   if (!opts.required) mapSchema = mapSchema.optional();
-  return Validate(mapSchema);
+  return field(mapSchema, opts);
 }
 
 /**
@@ -321,7 +974,11 @@ const FireDocRefCtor = DocumentReference as unknown as {
  * Combines validation with loading logic: apply alongside @Relation for relations.
  */
 export function DocumentReferenceField(
-  opts: { required?: boolean } = { required: false }
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<DocumentReference | null>;
+    name?: string;
+  } = { required: false }
 ) {
   let schema: ZodTypeAny = z.union([
     z.instanceof(FireDocRefCtor),
@@ -333,18 +990,23 @@ export function DocumentReferenceField(
     schema = schema.optional();
   }
 
-  return Validate(schema);
+  return field(schema, opts);
 }
 
 export function EnumField<T extends Record<string, any>>(
   enumObj: T,
-  opts: { required?: boolean; defaultValue?: T[keyof T]; } = { required: false }
+  opts: {
+    required?: boolean;
+    default?: FieldDefault<T[keyof T]>;
+    name?: string;
+    /** @deprecated Use `default`. */
+    defaultValue?: T[keyof T];
+  } = { required: false }
 ) {
   let enumSchema: ZodTypeAny = z.nativeEnum(enumObj);
   if (!opts.required) enumSchema = enumSchema.optional();
-
-  if (opts.defaultValue !== undefined) {
-    enumSchema = (enumSchema as any).default(opts.defaultValue);
-  }
-  return Validate(enumSchema);
+  return field(enumSchema, {
+    ...opts,
+    default: opts.default ?? opts.defaultValue,
+  });
 }
@@ -0,0 +1,151 @@
+import { DocumentData, FieldValue, Timestamp } from "firebase-admin/firestore";
+import {
+  cloneData,
+  isPlainObject,
+  joinPath,
+  splitPath,
+} from "./change-tracking";
+import {
+  getDateFieldMetadata,
+  getEmbeddedMetadata,
+  getFieldDefaults,
+  getVirtualMetadata,
+} from "./decorators";
+import { toFirestoreValue } from "./transformers";
+import { EmbeddedConstructor, EmbeddedMetadata } from "./types";
+
+const checkedClasses = new WeakSet<Function>();
+
+/**
+ * Resolves the class of an `@Embedded` property. Its `@DateField`s cannot fill
+ * themselves: sub-documents are written as a whole, outside of `save()`'s stamping.
+ */
+function embeddedClassOf(meta: EmbeddedMetadata): EmbeddedConstructor {
+  const cls = meta.embeddedClass();
+  if (!checkedClasses.has(cls)) {
+    const automatic = getDateFieldMetadata(cls).find(
+      (d) => d.autoFill || d.onUpdate || d.serverTimestamp
+    );
+    if (automatic) {
+      throw new Error(
+        `@DateField '${automatic.propertyName}' of the embedded class ${cls.name} cannot use autoFill, onUpdate or serverTimestamp; set it from the model instead.`
+      );
+    }
+    checkedClasses.add(cls);
+  }
+  return cls;
+}
+
+/**
+ * Turns a plain object into an instance of the embedded class and applies the field
+ * defaults of the class. Anything else is left for validation to report.
+ */
+function toInstance(cls: EmbeddedConstructor, value: unknown): unknown {
+  if (!(value instanceof cls) && !isPlainObject(value)) return value;
+  const instance: any =
+    value instanceof cls ? value : Object.assign(new cls(), value);
+  for (const { propertyName, value: fallback } of getFieldDefaults(cls)) {
+    if (instance[propertyName] !== undefined) continue;
+    instance[propertyName] =
+      typeof fallback === "function" ? fallback() : cloneData(fallback);
+  }
+  hydrateEmbedded(cls, instance);
+  return instance;
+}
+
+/**
+ * @internal Replaces, in place, the plain objects held by the `@Embedded` properties of
+ * `target` (a model or an embedded instance) with instances of their classes.
+ */
+export function hydrateEmbedded(owner: Function, target: any): void {
+  for (const meta of getEmbeddedMetadata(owner)) {
+    const value = target[meta.propertyName];
+    if (value == null) continue;
+    const cls = embeddedClassOf(meta);
+    if (!meta.array) {
+      target[meta.propertyName] = toInstance(cls, value);
+    } else if (Array.isArray(value)) {
+      target[meta.propertyName] = value.map((item) => toInstance(cls, item));
+    }
+  }
+}
+
+function toPlain(cls: EmbeddedConstructor, value: any): DocumentData {
+  const nested = getEmbeddedMetadata(cls);
+  const virtuals = getVirtualMetadata(cls).map((v) => v.propertyName);
+  const data: DocumentData = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (
+      entry === undefined ||
+      typeof entry === "function" ||
+      key.startsWith("_") ||
+      virtuals.includes(key)
+    ) {
+      continue;
+    }
+    const meta = nested.find((e) => e.propertyName === key);
+    if (meta) {
+      data[key] = serializeEmbedded(meta, entry);
+      continue;
+    }
+    // `@Transform`s and registered converters apply inside sub-documents too
+    const stored = toFirestoreValue(cls, key, entry);
+    data[key] = stored instanceof Date ? Timestamp.fromDate(stored) : stored;
+  }
+  return data;
+}
+
+/**
+ * @internal Converts the value of an `@Embedded` property into the map (or array of
+ * maps) written to Firestore. `FieldValue` sentinels and invalid values pass through.
+ */
+export function serializeEmbedded(
+  meta: EmbeddedMetadata,
+  value: unknown
+): unknown {
+  if (value == null || value instanceof FieldValue) return value;
+  const cls = embeddedClassOf(meta);
+  // Plain objects get the defaults of the embedded class first
+  const convert = (item: unknown) =>
+    item instanceof cls || isPlainObject(item)
+      ? toPlain(cls, toInstance(cls, item))
+      : item;
+  if (!meta.array) return convert(value);
+  return Array.isArray(value) ? value.map(convert) : value;
+}
+
+/**
+ * @internal Resolves a (dotted) property path to the `@Embedded` property it designates,
+ * e.g. `'address'` or `'shipping.address'`. Paths into embedded arrays or plain fields
+ * of an embedded class resolve to `undefined`.
+ */
+export function findEmbeddedMetadata(
+  owner: Function,
+  path: string
+): EmbeddedMetadata | undefined {
+  let current: Function = owner;
+  let meta: EmbeddedMetadata | undefined;
+  for (const segment of splitPath(path)) {
+    if (meta?.array) return undefined;
+    meta = getEmbeddedMetadata(current).find((e) => e.propertyName === segment);
+    if (!meta) return undefined;
+    current = meta.embeddedClass();
+  }
+  return meta;
+}
+
+/**
+ * @internal Resolves a dotted path ending in a field of an `@Embedded` class (e.g.
+ * `'address.zipCode'`) to that class and the field's property name.
+ */
+export function findEmbeddedField(
+  owner: Function,
+  path: string
+): { embeddedClass: Function; property: string } | undefined {
+  const segments = splitPath(path);
+  const property = segments.pop()!;
+  if (segments.length === 0) return undefined;
+  const meta = findEmbeddedMetadata(owner, joinPath(segments));
+  if (!meta || meta.array) return undefined;
+  return { embeddedClass: meta.embeddedClass(), property };
+}
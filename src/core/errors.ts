@@ -57,4 +57,196 @@ export class NotFoundError extends OrmError {
     this.modelName = modelName;
     this.documentId = documentId;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Error thrown when a page token passed to `paginate()` is malformed,
+ * has been tampered with, or was issued for a different query ordering.
+ */
+export class InvalidPageTokenError extends OrmError {
+  /**
+   * The rejected token.
+   */
+  public token: string;
+
+  /**
+   * Creates an instance of InvalidPageTokenError.
+   * @param token The rejected token.
+   * @param reason Why the token was rejected.
+   */
+  constructor(token: string, reason: string) {
+    super(`Invalid page token: ${reason}`);
+    this.token = token;
+  }
+}
+
+/**
+ * Error thrown when a write to a model with a `@VersionField` finds a stored
+ * version different from the one the instance was loaded with, or when a
+ * `@Unique` reservation released by a write was changed by a concurrent write.
+ */
+export class ConflictError extends OrmError {
+  /**
+   * The name of the model class being written.
+   */
+  public modelName: string;
+  /**
+   * The ID of the conflicting document.
+   */
+  public documentId: string;
+  /**
+   * The version held by the instance (`null` for reservation conflicts).
+   */
+  public expectedVersion: number | null;
+  /**
+   * The version currently stored, or `null` if the document no longer exists
+   * (or for reservation conflicts).
+   */
+  public actualVersion: number | null;
+
+  /**
+   * Creates an instance of ConflictError.
+   * @param modelName The name of the model class.
+   * @param documentId The ID of the document.
+   * @param expectedVersion The version held by the instance.
+   * @param actualVersion The version currently stored.
+   * @param reason Describes a conflict not about versions.
+   */
+  constructor(
+    modelName: string,
+    documentId: string,
+    expectedVersion: number | null,
+    actualVersion: number | null,
+    reason?: string
+  ) {
+    super(
+      reason
+        ? `Conflict on ${modelName} with ID ${documentId}: ${reason}`
+        : `Version conflict on ${modelName} with ID ${documentId}: expected version ${expectedVersion}, found ${actualVersion}`
+    );
+    this.modelName = modelName;
+    this.documentId = documentId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
+
+/**
+ * Error delivered to `watch()` error handlers when a realtime listener fails,
+ * or when hydrating or populating a changed document fails.
+ */
+export class WatchError extends OrmError {
+  /**
+   * The name of the model class being watched.
+   */
+  public modelName: string;
+  /**
+   * The underlying error.
+   */
+  public cause: unknown;
+
+  /**
+   * Creates an instance of WatchError.
+   * @param modelName The name of the model class.
+   * @param cause The underlying error.
+   */
+  constructor(modelName: string, cause: unknown) {
+    super(
+      `Realtime listener on ${modelName} failed: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.modelName = modelName;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Error thrown when a write to a model with `@Unique` constraints would store a value
+ * (or combination of values) already used by another document.
+ */
+export class UniqueConstraintError extends OrmError {
+  /**
+   * The name of the model class being written.
+   */
+  public modelName: string;
+  /**
+   * The constrained field, or the comma-separated fields of a composite constraint.
+   */
+  public field: string;
+  /**
+   * The conflicting value, or the values of a composite constraint in field order.
+   */
+  public value: unknown;
+  /**
+   * The ID of the document holding the value.
+   */
+  public conflictingId: string | undefined;
+
+  /**
+   * Creates an instance of UniqueConstraintError.
+   * @param modelName The name of the model class.
+   * @param fields The fields of the constraint.
+   * @param values The conflicting values, in field order.
+   * @param conflictingId The ID of the document holding the values.
+   */
+  constructor(
+    modelName: string,
+    fields: string[],
+    values: unknown[],
+    conflictingId?: string
+  ) {
+    const field = fields.join(", ");
+    const value = fields.length === 1 ? values[0] : values;
+    super(
+      `Unique constraint violated on ${modelName}.${fields.length === 1 ? field : `(${field})`}: ${JSON.stringify(value)} is already used${conflictingId ? ` by document ${conflictingId}` : ""}`
+    );
+    this.modelName = modelName;
+    this.field = field;
+    this.value = value;
+    this.conflictingId = conflictingId;
+  }
+}
+
+/**
+ * Error thrown when a migration registered with `defineMigration` fails on a document,
+ * while loading it or in `runMigrations`.
+ */
+export class MigrationError extends OrmError {
+  /**
+   * The name of the model class being migrated.
+   */
+  public modelName: string;
+  /**
+   * The ID of the document being migrated.
+   */
+  public documentId: string;
+  /**
+   * The version of the failing migration.
+   */
+  public version: number;
+  /**
+   * The underlying error.
+   */
+  public cause: unknown;
+
+  /**
+   * Creates an instance of MigrationError.
+   * @param modelName The name of the model class.
+   * @param documentId The ID of the document.
+   * @param version The version of the failing migration.
+   * @param cause The underlying error.
+   */
+  constructor(
+    modelName: string,
+    documentId: string,
+    version: number,
+    cause: unknown
+  ) {
+    super(
+      `Migration ${version} of ${modelName} failed on document ${documentId}: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.modelName = modelName;
+    this.documentId = documentId;
+    this.version = version;
+    this.cause = cause;
+  }
+}
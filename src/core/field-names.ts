@@ -0,0 +1,155 @@
+import { DocumentData, FieldPath } from "firebase-admin/firestore";
+import { isPlainObject, joinPath, splitPath } from "./change-tracking";
+import {
+  getEmbeddedMetadata,
+  getFieldNames,
+  getNamingStrategy,
+} from "./decorators";
+import { findEmbeddedMetadata } from "./embedded";
+import { EmbeddedMetadata, NamingStrategy } from "./types";
+
+interface FieldNaming {
+  /** Property name -> Firestore field name, from `name` options. */
+  names: Record<string, string>;
+  /** Firestore field name -> property name. */
+  properties: Map<string, string>;
+  strategy?: NamingStrategy;
+}
+
+/** The field naming of a model; `undefined` when properties are stored under their own names. */
+function namingOf(model: Function): FieldNaming | undefined {
+  const names = getFieldNames(model);
+  const strategy = getNamingStrategy(model);
+  const entries = Object.entries(names);
+  if (entries.length === 0 && !strategy) return undefined;
+  return {
+    names,
+    properties: new Map(entries.map(([property, name]) => [name, property])),
+    strategy,
+  };
+}
+
+/** Internal keys (`_schemaVersion`, ...) are never renamed. */
+function isReserved(key: string): boolean {
+  return key.startsWith("_");
+}
+
+function storedName(naming: FieldNaming, property: string): string {
+  if (isReserved(property)) return property;
+  const name = naming.names[property];
+  if (name !== undefined) return name;
+  if (naming.strategy === "snake_case") {
+    return property.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+  }
+  return property;
+}
+
+function propertyName(naming: FieldNaming, field: string): string {
+  const property = naming.properties.get(field);
+  if (property !== undefined) return property;
+  if (isReserved(field)) return field;
+  if (naming.strategy === "snake_case") {
+    return field.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+  }
+  return field;
+}
+
+/** The `@Embedded` (single, not array) property `property` of `owner`, if any. */
+function embeddedOf(
+  owner: Function,
+  property: string
+): EmbeddedMetadata | undefined {
+  return getEmbeddedMetadata(owner).find((e) => e.propertyName === property);
+}
+
+/**
+ * Maps a dotted path segment by segment: each segment names a property of the class
+ * reached so far, starting at the model and descending into `@Embedded` classes.
+ * Segments past a map field or an embedded array are map keys, kept as is.
+ */
+function storedPath(model: Function, path: string): string {
+  const segments: string[] = [];
+  let owner: Function | undefined = model;
+  for (const segment of splitPath(path)) {
+    if (!owner) {
+      segments.push(segment);
+      continue;
+    }
+    const naming = namingOf(owner);
+    segments.push(naming ? storedName(naming, segment) : segment);
+    const meta = embeddedOf(owner, segment);
+    owner = meta && !meta.array ? meta.embeddedClass() : undefined;
+  }
+  return joinPath(segments);
+}
+
+/** Renames the keys of the sub-document(s) held by an `@Embedded` property. */
+function renameEmbedded(
+  meta: EmbeddedMetadata | undefined,
+  value: unknown,
+  rename: (cls: Function, data: DocumentData) => DocumentData
+): unknown {
+  if (!meta) return value;
+  const cls = meta.embeddedClass();
+  const convert = (item: unknown) =>
+    isPlainObject(item) ? rename(cls, item) : item;
+  if (!meta.array) return convert(value);
+  return Array.isArray(value) ? value.map(convert) : value;
+}
+
+/**
+ * @internal Maps a property (or a dotted path into a map or `@Embedded` property) to
+ * its Firestore field path. `FieldPath`s are used as is.
+ */
+export function toStoredPath(model: Function, path: string): string;
+export function toStoredPath(
+  model: Function,
+  path: string | FieldPath
+): string | FieldPath;
+export function toStoredPath(
+  model: Function,
+  path: string | FieldPath
+): string | FieldPath {
+  if (typeof path !== "string") return path;
+  return storedPath(model, path);
+}
+
+/**
+ * @internal Renames the keys of data to write — document data or dotted `update()`
+ * paths — from property names to Firestore field names, inside `@Embedded`
+ * sub-documents too.
+ */
+export function toStoredData<D extends DocumentData>(
+  model: Function,
+  data: D
+): D {
+  if (!namingOf(model) && getEmbeddedMetadata(model).length === 0) return data;
+  const stored: DocumentData = {};
+  for (const [key, value] of Object.entries(data)) {
+    stored[storedPath(model, key)] = renameEmbedded(
+      findEmbeddedMetadata(model, key),
+      value,
+      toStoredData
+    );
+  }
+  return stored as D;
+}
+
+/** @internal Renames the fields of stored data to property names, inside `@Embedded` sub-documents too. */
+export function fromStoredData(
+  model: Function,
+  data: DocumentData
+): DocumentData {
+  const naming = namingOf(model);
+  if (!naming && getEmbeddedMetadata(model).length === 0) return data;
+  const properties: DocumentData = {};
+  for (const [field, value] of Object.entries(data)) {
+    const property = naming ? propertyName(naming, field) : field;
+    properties[property] = renameEmbedded(
+      embeddedOf(model, property),
+      value,
+      fromStoredData
+    );
+  }
+  return properties;
+}
@@ -0,0 +1,108 @@
+import { CollectionReference, Query } from "firebase-admin/firestore";
+import { BaseModel } from "./base-model";
+import { getHasManyMetadata } from "./decorators";
+import { toStoredPath } from "./field-names";
+import { applySoftDeleteScope } from "./soft-delete";
+import { HasManyMetadata } from "./types";
+
+/** Values per `in` filter allowed by Firestore. */
+const IN_CHUNK_SIZE = 30;
+
+/** @internal Finds the `@HasMany` metadata of `prop` or throws. */
+export function findHasManyMetadata(
+  model: Function,
+  prop: string
+): HasManyMetadata {
+  const meta = getHasManyMetadata(model).find((m) => m.propertyName === prop);
+  if (!meta) {
+    throw new Error(
+      `@HasMany not defined for property "${prop}" on ${model.name}`
+    );
+  }
+  return meta;
+}
+
+/**
+ * @internal Query for the documents of a `@HasMany` relation of `owner`: those whose
+ * foreign key references it, live only, with the decorator's ordering and limit.
+ * `queryFn` refines the query and may override ordering and limit.
+ */
+export function hasManyQuery<T extends BaseModel>(
+  meta: HasManyMetadata,
+  owner: BaseModel,
+  queryFn?: (ref: Query<T>) => Query<T>
+): Query<T> {
+  const RelatedModel = meta.relatedModel();
+  let query = applySoftDeleteScope(
+    RelatedModel,
+    (
+      RelatedModel.getCollectionRef() as unknown as CollectionReference<T>
+    ).where(toStoredPath(RelatedModel, meta.foreignKey), "==", owner.docRef)
+  );
+  if (meta.orderBy) {
+    query = query.orderBy(
+      toStoredPath(RelatedModel, meta.orderBy.field),
+      meta.orderBy.direction
+    );
+  }
+  if (meta.limit !== undefined) {
+    query = query.limit(meta.limit);
+  }
+  return queryFn ? queryFn(query) : query;
+}
+
+/**
+ * @internal Loads a `@HasMany` relation for every owner, keyed by the owner's path.
+ * Without a limit, owners are resolved together with `in` queries (30 per query);
+ * a limit applies per owner, so each owner then gets its own query.
+ */
+export async function loadHasMany(
+  meta: HasManyMetadata,
+  owners: BaseModel[]
+): Promise<Map<string, BaseModel[]>> {
+  const byOwner = new Map<string, BaseModel[]>();
+  for (const owner of owners) byOwner.set(owner.docRef.path, []);
+
+  if (meta.limit !== undefined) {
+    await Promise.all(
+      owners.map(async (owner) => {
+        const snapshot = await hasManyQuery(meta, owner).get();
+        byOwner.set(
+          owner.docRef.path,
+          snapshot.docs.map((doc) => doc.data())
+        );
+      })
+    );
+    return byOwner;
+  }
+
+  const RelatedModel = meta.relatedModel();
+  const foreignKey = toStoredPath(RelatedModel, meta.foreignKey);
+  const refs = owners.map((owner) => owner.docRef);
+  const queries: Query<BaseModel>[] = [];
+  for (let i = 0; i < refs.length; i += IN_CHUNK_SIZE) {
+    let query = applySoftDeleteScope(
+      RelatedModel,
+      (RelatedModel.getCollectionRef() as unknown as Query<BaseModel>).where(
+        foreignKey,
+        "in",
+        refs.slice(i, i + IN_CHUNK_SIZE)
+      )
+    );
+    if (meta.orderBy) {
+      query = query.orderBy(
+        toStoredPath(RelatedModel, meta.orderBy.field),
+        meta.orderBy.direction
+      );
+    }
+    queries.push(query);
+  }
+
+  // Documents keep the query order inside each owner's list
+  for (const snapshot of await Promise.all(queries.map((q) => q.get()))) {
+    for (const doc of snapshot.docs) {
+      byOwner.get(doc.get(foreignKey)?.path)?.push(doc.data());
+    }
+  }
+  return byOwner;
+}
@@ -0,0 +1,201 @@
+import {
+  DocumentData,
+  DocumentSnapshot,
+  FieldPath,
+  FieldValue,
+} from "firebase-admin/firestore";
+import { getFirestoreInstance } from "../config/firestore-instance";
+import type { BaseModel } from "./base-model";
+import { createWriter, DEFAULT_PAGE_SIZE } from "./bulk";
+import { cloneData, joinPath, toUpdateArgs } from "./change-tracking";
+import { SUBMODEL_KEY } from "./decorators";
+import { MigrationError } from "./errors";
+import {
+  BaseModelConstructor,
+  MigrationFn,
+  MigrationReport,
+  RunMigrationsOptions,
+  SubModelMetadata,
+} from "./types";
+
+/** Field stamped with the schema version a document was written at. */
+export const SCHEMA_VERSION_FIELD = "_schemaVersion";
+
+interface Migration {
+  version: number;
+  migrate: MigrationFn;
+}
+
+const registry = new Map<Function, Migration[]>();
+
+/**
+ * Registers a schema migration for a model. Documents stored at a lower
+ * `_schemaVersion` (or without one) are migrated lazily when loaded, and for good by
+ * `runMigrations`; documents saved by the ORM are stamped with the highest version.
+ * Migrations run in version order, on a copy of the stored data, and must be synchronous.
+ * @param model The model class.
+ * @param version A positive integer, unique per model.
+ * @param migrate Mutates the data or returns the new data.
+ * @example
+ * ```typescript
+ * defineMigration(User, 1, (doc) => {
+ *   doc.displayName = doc.name;
+ *   delete doc.name;
+ * });
+ * ```
+ */
+export function defineMigration(
+  model: typeof BaseModel,
+  version: number,
+  migrate: MigrationFn
+): void {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(
+      `Invalid version provided to defineMigration for ${model.name}. Expected a positive integer. Received: ${version}`
+    );
+  }
+  const migrations = registry.get(model) ?? [];
+  if (migrations.some((m) => m.version === version)) {
+    throw new Error(
+      `Migration ${version} is already defined for ${model.name}.`
+    );
+  }
+  migrations.push({ version, migrate });
+  migrations.sort((a, b) => a.version - b.version);
+  registry.set(model, migrations);
+}
+
+/** @internal The highest migration version registered for a model; 0 without migrations. */
+export function getSchemaVersion(model: Function): number {
+  const migrations = registry.get(model);
+  return migrations?.length ? migrations[migrations.length - 1].version : 0;
+}
+
+/**
+ * @internal Runs the migrations above the version `data` was stored at, returning
+ * the migrated copy stamped with the new version, or `data` itself when up to date.
+ * @throws {MigrationError} If a migration throws.
+ */
+export function migrateData(
+  model: Function,
+  data: DocumentData,
+  documentId: string
+): DocumentData {
+  const from: number = data[SCHEMA_VERSION_FIELD] ?? 0;
+  const pending = (registry.get(model) ?? []).filter((m) => m.version > from);
+  if (pending.length === 0) return data;
+
+  let current = cloneData(data);
+  for (const { version, migrate } of pending) {
+    try {
+      current = migrate(current) ?? current;
+    } catch (error) {
+      throw new MigrationError(model.name, documentId, version, error);
+    }
+    current[SCHEMA_VERSION_FIELD] = version;
+  }
+  return current;
+}
+
+/**
+ * `update()` arguments turning `before` into `after`: its fields, plus deletes for
+ * removed ones. Keys are single path segments, so keys holding a dot are not split.
+ */
+function toUpdate(before: DocumentData, after: DocumentData) {
+  const payload: DocumentData = {};
+  for (const [key, value] of Object.entries(after)) {
+    payload[joinPath([key])] = value;
+  }
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) payload[joinPath([key])] = FieldValue.delete();
+  }
+  return toUpdateArgs(payload);
+}
+
+/**
+ * Migrates every document of a model's collection to the latest registered version,
+ * paging through the collection by document ID. A `@SubCollectionModel` is migrated
+ * across all parent documents with a collection group query, paging by document
+ * path instead. Documents already at that version
+ * are skipped, so the runner can be re-run or resumed from `report.lastId`
+ * (`options.startAfter`). Each write carries an `updateTime` precondition: documents
+ * changed concurrently are reported as failures and picked up by the next run.
+ * Soft-deleted documents are migrated too.
+ * @returns A report of the scanned, migrated, skipped and failed documents.
+ */
+export async function runMigrations(
+  model: BaseModelConstructor,
+  options: RunMigrationsOptions = {}
+): Promise<MigrationReport> {
+  const targetVersion = getSchemaVersion(model);
+  const report: MigrationReport = {
+    targetVersion,
+    scanned: 0,
+    migrated: 0,
+    skipped: 0,
+    failures: [],
+    lastId: options.startAfter,
+  };
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const subModel = Reflect.getOwnMetadata(SUBMODEL_KEY, model) as
+    | SubModelMetadata
+    | undefined;
+  const collection = subModel
+    ? getFirestoreInstance().collectionGroup(subModel.subPath)
+    : getFirestoreInstance().collection(model._getCollectionName());
+  // Collection group cursors on the document ID need the full path
+  const keyOf = (doc: DocumentSnapshot) => (subModel ? doc.ref.path : doc.id);
+  const writer = options.dryRun ? undefined : createWriter(options);
+
+  try {
+    while (true) {
+      let query = collection.orderBy(FieldPath.documentId()).limit(pageSize);
+      if (report.lastId) query = query.startAfter(report.lastId);
+      const { docs } = await query.get();
+      if (docs.length === 0) break;
+
+      const writes: Promise<void>[] = [];
+      for (const doc of docs) {
+        report.scanned++;
+        const data = doc.data();
+        if ((data[SCHEMA_VERSION_FIELD] ?? 0) >= targetVersion) {
+          report.skipped++;
+          continue;
+        }
+        let migrated: DocumentData;
+        try {
+          migrated = migrateData(model, data, doc.id);
+        } catch (error) {
+          report.failures.push({ id: keyOf(doc), error });
+          continue;
+        }
+        if (!writer) {
+          report.migrated++;
+          continue;
+        }
+        const write = writer.update(doc.ref, ...toUpdate(data, migrated), {
+          lastUpdateTime: doc.updateTime,
+        });
+        writes.push(
+          write.then(
+            () => {
+              report.migrated++;
+            },
+            (error) => {
+              report.failures.push({ id: keyOf(doc), error });
+            }
+          )
+        );
+      }
+      if (writer) await writer.flush();
+      await Promise.all(writes);
+
+      report.lastId = keyOf(docs[docs.length - 1]);
+      options.onProgress?.(report);
+      if (docs.length < pageSize) break;
+    }
+  } finally {
+    await writer?.close();
+  }
+  return report;
+}
@@ -0,0 +1,248 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  DocumentReference,
+  FieldPath,
+  GeoPoint,
+  OrderByDirection,
+  Query,
+  QueryDocumentSnapshot,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { getFirestoreInstance } from "../config/firestore-instance";
+import { getPageTokenSecret } from "../config/page-token-secret";
+import type { BaseModel } from "./base-model";
+import { InvalidPageTokenError } from "./errors";
+import { toStoredPath } from "./field-names";
+import { applySoftDeleteScope } from "./soft-delete";
+import {
+  BaseModelConstructor,
+  PaginateOrderBy,
+  PaginateOptions,
+  PaginateResult,
+} from "./types";
+
+type PageDirection = "next" | "prev";
+
+/** Decoded contents of a page token. */
+interface PageCursor {
+  /** Which way the token pages relative to the document it was built from. */
+  direction: PageDirection;
+  /** Order-by values of the boundary document, in clause order. */
+  values: unknown[];
+  /** ID of the boundary document (the implicit last order-by clause). */
+  id: string;
+  /** Signature of the ordering the token was issued for. */
+  ordering: string;
+}
+
+interface SerializedCursor {
+  d: "n" | "p";
+  v: unknown[];
+  id: string;
+  o: string;
+}
+
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return { $t: [value.seconds, value.nanoseconds] };
+  }
+  if (value instanceof GeoPoint) {
+    return { $g: [value.latitude, value.longitude] };
+  }
+  if (value instanceof DocumentReference) {
+    return { $r: value.path };
+  }
+  if (value instanceof Date) {
+    return encodeValue(Timestamp.fromDate(value));
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value && typeof value === "object") {
+    const map: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      map[key] = encodeValue(entry);
+    }
+    return { $m: map };
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value && typeof value === "object") {
+    const tagged = value as Record<string, any>;
+    if ("$t" in tagged) return new Timestamp(tagged.$t[0], tagged.$t[1]);
+    if ("$g" in tagged) return new GeoPoint(tagged.$g[0], tagged.$g[1]);
+    if ("$r" in tagged) return getFirestoreInstance().doc(tagged.$r);
+    if ("$m" in tagged) {
+      const map: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(tagged.$m)) {
+        map[key] = decodeValue(entry);
+      }
+      return map;
+    }
+  }
+  return value;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/** @internal Serializes a cursor into an opaque, HMAC-signed token. */
+export function encodePageToken(cursor: PageCursor, secret: string): string {
+  const serialized: SerializedCursor = {
+    d: cursor.direction === "next" ? "n" : "p",
+    v: cursor.values.map(encodeValue),
+    id: cursor.id,
+    o: cursor.ordering,
+  };
+  const payload = Buffer.from(JSON.stringify(serialized)).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * @internal Verifies a token's signature and decodes its cursor.
+ * @throws {InvalidPageTokenError} If the token is malformed or its signature does not match.
+ */
+export function decodePageToken(token: string, secret: string): PageCursor {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length) {
+    throw new InvalidPageTokenError(token, "malformed token");
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidPageTokenError(token, "signature mismatch");
+  }
+
+  let serialized: SerializedCursor;
+  try {
+    serialized = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    throw new InvalidPageTokenError(token, "malformed payload");
+  }
+  if (
+    !serialized ||
+    (serialized.d !== "n" && serialized.d !== "p") ||
+    !Array.isArray(serialized.v) ||
+    typeof serialized.id !== "string" ||
+    typeof serialized.o !== "string"
+  ) {
+    throw new InvalidPageTokenError(token, "malformed payload");
+  }
+
+  return {
+    direction: serialized.d === "n" ? "next" : "prev",
+    values: serialized.v.map(decodeValue),
+    id: serialized.id,
+    ordering: serialized.o,
+  };
+}
+
+function flip(direction: OrderByDirection): OrderByDirection {
+  return direction === "desc" ? "asc" : "desc";
+}
+
+/**
+ * @internal Implementation of `BaseModel.paginate`: runs one page of a cursor-ordered
+ * query and issues tokens for the neighbouring pages.
+ */
+export async function paginate<M extends BaseModel>(
+  model: BaseModelConstructor,
+  options: PaginateOptions<M>
+): Promise<PaginateResult<M>> {
+  const { pageSize } = options;
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new Error(
+      `[${model.name}] paginate() requires a positive integer pageSize. Received: ${pageSize}`
+    );
+  }
+
+  const secret = options.secret ?? getPageTokenSecret();
+  const clauses: PaginateOrderBy<M>[] = options.orderBy
+    ? ([] as PaginateOrderBy<M>[]).concat(options.orderBy)
+    : [];
+  const idDirection: OrderByDirection =
+    clauses[clauses.length - 1]?.direction ?? "asc";
+  const ordering = [
+    model._getCollectionName(),
+    ...clauses.map((c) => `${String(c.field)}:${c.direction ?? "asc"}`),
+    `__name__:${idDirection}`,
+  ].join(",");
+
+  let cursor: PageCursor | undefined;
+  if (options.pageToken) {
+    cursor = decodePageToken(options.pageToken, secret);
+    if (cursor.ordering !== ordering) {
+      throw new InvalidPageTokenError(
+        options.pageToken,
+        "token was issued for a different ordering"
+      );
+    }
+  }
+  const backwards = cursor?.direction === "prev";
+
+  const ref = model.getCollectionRef() as any;
+  let query: Query<M> = applySoftDeleteScope(
+    model,
+    options.queryFn ? options.queryFn(ref) : ref,
+    options
+  );
+  for (const clause of clauses) {
+    const direction = clause.direction ?? "asc";
+    query = query.orderBy(
+      toStoredPath(model, clause.field),
+      backwards ? flip(direction) : direction
+    );
+  }
+  query = query.orderBy(
+    FieldPath.documentId(),
+    backwards ? flip(idDirection) : idDirection
+  );
+  if (cursor) {
+    query = query.startAfter(...cursor.values, cursor.id);
+  }
+
+  // One extra document tells us whether another page exists in the read direction.
+  const snapshot = await query.limit(pageSize + 1).get();
+  const hasExtra = snapshot.docs.length > pageSize;
+  const docs = snapshot.docs.slice(0, pageSize);
+  if (backwards) docs.reverse();
+
+  const items: M[] = docs
+    .map((doc) => doc.data())
+    .filter((instance) => !!instance);
+  await model._applyPopulation(items, options);
+
+  const tokenFor = (
+    doc: QueryDocumentSnapshot<M>,
+    direction: PageDirection
+  ): string =>
+    encodePageToken(
+      {
+        direction,
+        values: clauses.map((c) => doc.get(toStoredPath(model, c.field))),
+        id: doc.id,
+        ordering,
+      },
+      secret
+    );
+
+  const first = docs[0];
+  const last = docs[docs.length - 1];
+  // Paging backwards always lands before the page we came from, so a next page exists.
+  const hasMore = backwards ? true : hasExtra;
+  const hasPrev = backwards ? hasExtra : cursor !== undefined;
+
+  return {
+    items,
+    nextPageToken: hasMore && last ? tokenFor(last, "next") : undefined,
+    prevPageToken: hasPrev && first ? tokenFor(first, "prev") : undefined,
+    hasMore,
+  };
+}
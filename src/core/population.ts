@@ -0,0 +1,472 @@
+import { DocumentReference, DocumentSnapshot } from "firebase-admin/firestore";
+import { getFirestoreInstance } from "../config/firestore-instance";
+import { getMaxPopulateDepth } from "../config/populate-depth";
+import { BaseModel } from "./base-model";
+import {
+  getHasManyMetadata,
+  SUBCOL_DOC_KEY,
+  SUBCOL_KEY,
+  SUBMODEL_KEY,
+} from "./decorators";
+import { loadHasMany } from "./has-many";
+import { isExcludedBySoftDeleteScope } from "./soft-delete";
+import {
+  BaseModelConstructor,
+  HasManyMetadata,
+  PopulateOption,
+  SubCollectionDocMetadata,
+  SubCollectionMetadata,
+} from "./types";
+
+/** References per `getAll()` call, and subcollection queries issued at once. */
+const GET_ALL_CHUNK_SIZE = 100;
+
+/**
+ * @internal A field to populate. `children` are populated on the documents it
+ * resolves to; without them, related documents get the defaults `findById` applies
+ * (eager relations and subcollections).
+ */
+export interface PopulateNode {
+  field: string;
+  children?: PopulateNode[];
+}
+
+/**
+ * @internal State shared by the levels of one populate operation: every document
+ * hydrated so far, by path, so a document reached twice (e.g. through a cycle such
+ * as `User.manager`) is reused instead of being read and expanded again; and the
+ * number of relation hops from the loaded documents.
+ */
+export interface PopulateContext {
+  depth: number;
+  maxDepth: number;
+  hydrated: Map<string, BaseModel | null>;
+}
+
+/** @internal Starts a populate operation rooted at `instances`. */
+export function createPopulateContext(
+  instances: BaseModel[],
+  maxDepth = getMaxPopulateDepth()
+): PopulateContext {
+  const hydrated = new Map<string, BaseModel | null>();
+  for (const instance of instances) {
+    const ref: DocumentReference | undefined = (instance as any).__docRef;
+    if (ref && instance.id) hydrated.set(ref.path, instance);
+  }
+  return { depth: 0, maxDepth, hydrated };
+}
+
+/** A field of one instance waiting for the document at `path`. */
+interface PendingField {
+  instance: BaseModel;
+  node: PopulateNode;
+  path: string;
+  /** Model to hydrate the document with. */
+  model: BaseModelConstructor;
+  /** `@SubCollectionDoc` fields hydrate a child of `instance`. */
+  isSubDoc: boolean;
+  /** `@RelationArray` elements are resolved into `list[index]`. */
+  list?: unknown[];
+  index?: number;
+}
+
+/** A `@RelationArray` being populated on one instance. */
+interface PendingList {
+  instance: BaseModel;
+  fieldName: string;
+  list: unknown[];
+}
+
+function cache(instance: BaseModel, fieldName: string, value: unknown) {
+  (instance as any)[fieldName] = value;
+  (instance as any)._populatedRelations[fieldName] = value;
+}
+
+/** Fetches the references with `getAll()` in chunks, keyed by path. */
+async function fetchAll(
+  refs: DocumentReference[]
+): Promise<Map<string, DocumentSnapshot | Error>> {
+  const db = getFirestoreInstance();
+  const snapshots = new Map<string, DocumentSnapshot | Error>();
+  const chunks: DocumentReference[][] = [];
+  for (let i = 0; i < refs.length; i += GET_ALL_CHUNK_SIZE) {
+    chunks.push(refs.slice(i, i + GET_ALL_CHUNK_SIZE));
+  }
+  await Promise.all(
+    chunks.map(async (chunk) => {
+      try {
+        for (const snapshot of await db.getAll(...chunk)) {
+          snapshots.set(snapshot.ref.path, snapshot);
+        }
+      } catch (error) {
+        for (const ref of chunk) snapshots.set(ref.path, error as Error);
+      }
+    })
+  );
+  return snapshots;
+}
+
+/**
+ * Populates a `@HasMany` node: the related documents of every instance are loaded
+ * with batched queries, documents already hydrated by this operation are reused,
+ * and the rest are populated like the documents of a `@Relation`.
+ */
+async function populateHasMany(
+  model: BaseModelConstructor,
+  instances: BaseModel[],
+  node: PopulateNode,
+  meta: HasManyMetadata,
+  context: PopulateContext
+): Promise<void> {
+  const fieldName = node.field;
+  const owners: BaseModel[] = [];
+  // Cached lists are only descended into for nested paths
+  const toNest = new Set<BaseModel>();
+  for (const instance of instances) {
+    const populated = (instance as any)._populatedRelations;
+    if (Object.prototype.hasOwnProperty.call(populated, fieldName)) {
+      (instance as any)[fieldName] = populated[fieldName];
+      if (node.children) {
+        for (const item of populated[fieldName]) toNest.add(item);
+      }
+    } else if (instance.id) {
+      owners.push(instance);
+    }
+  }
+
+  const fresh: BaseModel[] = [];
+  if (owners.length) {
+    let loaded: Map<string, BaseModel[]>;
+    try {
+      loaded = await loadHasMany(meta, owners);
+    } catch (error) {
+      console.error(
+        `[${model.name}] Error populating '${fieldName}' (HasMany):`,
+        error
+      );
+      return;
+    }
+    for (const owner of owners) {
+      const items = loaded.get(owner.docRef.path)!.map((item) => {
+        const path = item.docRef.path;
+        const known = context.hydrated.get(path);
+        if (known) return known;
+        context.hydrated.set(path, item);
+        if (!node.children) fresh.push(item);
+        return item;
+      });
+      cache(owner, fieldName, items);
+      if (node.children) items.forEach((item) => toNest.add(item));
+    }
+  }
+
+  const RelatedModel = meta.relatedModel();
+  const childContext = { ...context, depth: context.depth + 1 };
+  if (fresh.length) {
+    try {
+      await RelatedModel._applyPopulation(fresh, undefined, childContext);
+    } catch (error) {
+      console.error(
+        `[${model.name}] Error populating relations of related ${RelatedModel.name} instances:`,
+        error
+      );
+    }
+  }
+  if (toNest.size) {
+    await populateMany(RelatedModel, [...toNest], node.children!, childContext);
+  }
+}
+
+/**
+ * @internal Loads the `@SubCollection` properties `props` of every instance. A
+ * subcollection can only be queried under its own parent and its document IDs are
+ * unknown, so it cannot go through `getAll()`: the queries, one per instance and
+ * property, are issued concurrently in chunks instead of one after the other.
+ */
+export async function populateSubcollections(
+  model: BaseModelConstructor,
+  instances: BaseModel[],
+  props: string[]
+): Promise<void> {
+  const subMetas: SubCollectionMetadata[] =
+    Reflect.getOwnMetadata(SUBCOL_KEY, model) || [];
+  const reads: (() => Promise<void>)[] = [];
+  for (const propName of props) {
+    if (!subMetas.some((m) => m.propertyName === propName)) continue;
+    for (const instance of instances) {
+      reads.push(async () => {
+        const items = await instance.subcollection(propName as keyof BaseModel);
+        (instance as any)[propName] = items;
+      });
+    }
+  }
+  for (let i = 0; i < reads.length; i += GET_ALL_CHUNK_SIZE) {
+    await Promise.all(
+      reads.slice(i, i + GET_ALL_CHUNK_SIZE).map((read) => read())
+    );
+  }
+}
+
+/**
+ * @internal Turns populate options into a tree: dotted paths (`'department.head'`)
+ * and `{ path, populate }` objects become nested nodes, and entries sharing a field
+ * are merged. `true` selects the eager relations (`lazy: false`), `false` nothing.
+ */
+export function resolvePopulateNodes(
+  model: BaseModelConstructor,
+  options: PopulateOption | PopulateOption[] | boolean
+): PopulateNode[] {
+  if (typeof options === "boolean") {
+    return options
+      ? model
+          ._getRelationMetadata()
+          .filter((meta) => !meta.lazy)
+          .map((meta) => ({ field: meta.propertyName }))
+      : [];
+  }
+
+  const roots: PopulateNode[] = [];
+  const add = (
+    nodes: PopulateNode[],
+    segments: string[],
+    nested?: PopulateOption[]
+  ) => {
+    const [field, ...rest] = segments;
+    let node = nodes.find((n) => n.field === field);
+    if (!node) nodes.push((node = { field }));
+    if (rest.length) {
+      add((node.children ??= []), rest, nested);
+    } else if (nested) {
+      node.children ??= [];
+      for (const entry of nested) addEntry(node.children, entry);
+    }
+  };
+  const addEntry = (nodes: PopulateNode[], entry: PopulateOption) => {
+    if (typeof entry === "string") {
+      add(nodes, entry.split("."));
+    } else {
+      add(nodes, entry.path.split("."), entry.populate ?? []);
+    }
+  };
+
+  for (const entry of Array.isArray(options) ? options : [options]) {
+    addEntry(roots, entry);
+  }
+  return roots;
+}
+
+/**
+ * @internal Populates `nodes` (`@Relation`, `@RelationArray`, `@SubCollectionDoc` and `@HasMany` properties) on
+ * every instance at once: references are collected across instances, deduplicated
+ * and read with `getAll()`, so a page costs one round trip per chunk instead of one
+ * per row and relation. The resolved documents are then populated level by level,
+ * following the nested nodes or, for leaves, the defaults `findById` applies, up to
+ * `context.maxDepth` relation hops.
+ */
+export async function populateMany(
+  model: BaseModelConstructor,
+  instances: BaseModel[],
+  nodes: PopulateNode[],
+  context: PopulateContext = createPopulateContext(instances)
+): Promise<void> {
+  if (instances.length === 0 || nodes.length === 0) return;
+  if (context.depth >= context.maxDepth) {
+    console.warn(
+      `[${model.name}] Max populate depth (${context.maxDepth}) reached; ` +
+        `'${nodes.map((n) => n.field).join("', '")}' left unpopulated.`
+    );
+    return;
+  }
+
+  const relationMeta = model._getRelationMetadata();
+  const subDocMeta: SubCollectionDocMetadata[] =
+    Reflect.getOwnMetadata(SUBCOL_DOC_KEY, model) || [];
+  const hasManyMeta = getHasManyMetadata(model);
+
+  const pending: PendingField[] = [];
+  const lists: PendingList[] = [];
+  const refs = new Map<string, DocumentReference>();
+
+  for (const node of nodes) {
+    const fieldName = node.field;
+    const hasMany = hasManyMeta.find((m) => m.propertyName === fieldName);
+    if (hasMany) {
+      await populateHasMany(model, instances, node, hasMany, context);
+      continue;
+    }
+    const relation = relationMeta.find((m) => m.propertyName === fieldName);
+    const subDoc = subDocMeta.find((m) => m.propertyName === fieldName);
+    if (!relation && !subDoc) {
+      console.warn(
+        `[${model.name}] Attempted to populate non-relation field: '${fieldName}'`
+      );
+      continue;
+    }
+
+    for (const instance of instances) {
+      const populated = (instance as any)._populatedRelations;
+      if (relation?.array) {
+        const isCached = Object.prototype.hasOwnProperty.call(
+          populated,
+          fieldName
+        );
+        const value = isCached
+          ? populated[fieldName]
+          : (instance as any)[fieldName];
+        if (isCached) (instance as any)[fieldName] = value;
+        // Cached arrays are only descended into for nested paths
+        if (!Array.isArray(value) || (isCached && !node.children)) continue;
+
+        const list = [...value];
+        lists.push({ instance, fieldName, list });
+        list.forEach((item, index) => {
+          let itemRef: DocumentReference;
+          if (item instanceof DocumentReference) {
+            itemRef = item;
+          } else if (item instanceof BaseModel && (item as any).__docRef) {
+            itemRef = (item as any).__docRef;
+            if (!context.hydrated.has(itemRef.path)) {
+              context.hydrated.set(itemRef.path, item);
+            }
+          } else {
+            return;
+          }
+          if (!context.hydrated.has(itemRef.path)) {
+            refs.set(itemRef.path, itemRef);
+          }
+          pending.push({
+            instance,
+            node,
+            path: itemRef.path,
+            model: relation.relatedModel(),
+            isSubDoc: false,
+            list,
+            index,
+          });
+        });
+        continue;
+      }
+
+      let ref: DocumentReference;
+      if (Object.prototype.hasOwnProperty.call(populated, fieldName)) {
+        // If it's cached (even as null), use the cached value and skip fetching
+        const cached = populated[fieldName];
+        (instance as any)[fieldName] = cached;
+        if (!cached || !node.children || !cached.__docRef) continue;
+        // Still descend into nested paths
+        ref = cached.__docRef;
+        if (!context.hydrated.has(ref.path)) {
+          context.hydrated.set(ref.path, cached);
+        }
+      } else if (subDoc) {
+        ref = instance.docRef
+          .collection(subDoc.subcollectionName)
+          .doc(subDoc.docId);
+      } else {
+        const value = (instance as any)[fieldName];
+        if (value instanceof DocumentReference) {
+          ref = value;
+        } else {
+          // Already an instance: cache it; null/undefined: cache null; anything else is ignored
+          if (value instanceof BaseModel || value == null) {
+            populated[fieldName] = value ?? null;
+          }
+          continue;
+        }
+      }
+
+      if (!context.hydrated.has(ref.path)) refs.set(ref.path, ref);
+      pending.push({
+        instance,
+        node,
+        path: ref.path,
+        model: subDoc ? subDoc.model() : relation!.relatedModel(),
+        isSubDoc: !!subDoc,
+      });
+    }
+  }
+  if (pending.length === 0 && lists.length === 0) return;
+
+  const snapshots = await fetchAll([...refs.values()]);
+
+  // Top-level documents read at this level that get findById()'s defaults
+  const fresh = new Map<BaseModelConstructor, BaseModel[]>();
+  // Resolved documents to populate with nested nodes, per model and nodes
+  const nested = new Map<
+    BaseModelConstructor,
+    Map<PopulateNode[], Set<BaseModel>>
+  >();
+
+  // A reference to a missing, unreadable or soft-deleted document is left on the
+  // instance (or in its array), so saving the instance keeps the link; single
+  // relations are not cached either, so a later populate retries
+  const assign = (field: PendingField, value: BaseModel | null) => {
+    if (!value && !field.isSubDoc) return;
+    if (field.list) field.list[field.index!] = value;
+    else cache(field.instance, field.node.field, value);
+  };
+
+  for (const field of pending) {
+    const fieldName = field.node.field;
+    let related = context.hydrated.get(field.path);
+    if (related === undefined) {
+      const snapshot = snapshots.get(field.path);
+      if (!snapshot || snapshot instanceof Error) {
+        console.error(
+          `[${model.name}] Error populating '${fieldName}' (Ref: ${field.path}) on instance ${field.instance.id}:`,
+          snapshot
+        );
+        assign(field, null);
+        continue;
+      }
+      const isSubModel = !!Reflect.getOwnMetadata(SUBMODEL_KEY, field.model);
+      const loaded: BaseModel | null =
+        !field.isSubDoc &&
+        !isSubModel &&
+        isExcludedBySoftDeleteScope(field.model, snapshot)
+          ? null
+          : field.model._fromFirestore(snapshot);
+      if (loaded && field.isSubDoc) {
+        (loaded as any).__parent = field.instance;
+      }
+      context.hydrated.set(field.path, loaded);
+
+      if (loaded && !field.isSubDoc && !isSubModel && !field.node.children) {
+        if (!fresh.has(field.model)) fresh.set(field.model, []);
+        fresh.get(field.model)!.push(loaded);
+      }
+      related = loaded;
+    }
+    assign(field, related);
+
+    if (related && field.node.children) {
+      if (!nested.has(field.model)) nested.set(field.model, new Map());
+      const byNodes = nested.get(field.model)!;
+      if (!byNodes.has(field.node.children)) {
+        byNodes.set(field.node.children, new Set());
+      }
+      byNodes.get(field.node.children)!.add(related);
+    }
+  }
+
+  for (const { instance, fieldName, list } of lists) {
+    cache(instance, fieldName, list);
+  }
+
+  const childContext = { ...context, depth: context.depth + 1 };
+  for (const [RelatedModel, related] of fresh) {
+    try {
+      await RelatedModel._applyPopulation(related, undefined, childContext);
+    } catch (error) {
+      console.error(
+        `[${model.name}] Error populating relations of related ${RelatedModel.name} instances:`,
+        error
+      );
+    }
+  }
+  for (const [RelatedModel, byNodes] of nested) {
+    for (const [children, related] of byNodes) {
+      await populateMany(RelatedModel, [...related], children, childContext);
+    }
+  }
+}
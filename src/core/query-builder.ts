@@ -0,0 +1,201 @@
+import {
+  DocumentSnapshot,
+  FieldPath,
+  Filter,
+  OrderByDirection,
+  Query,
+  WhereFilterOp,
+} from "firebase-admin/firestore";
+import type { BaseModel } from "./base-model";
+import { toStoredPath } from "./field-names";
+import { toQueryValue } from "./transformers";
+import {
+  BaseModelConstructor,
+  FindOptions,
+  ModelField,
+  ModelFieldPath,
+  WhereValue,
+} from "./types";
+
+/**
+ * Typed wrapper around `Filter` handed to `where()` callbacks, used to compose
+ * `Filter.or` / `Filter.and` conditions with checked field names.
+ */
+export interface FilterFactory<M> {
+  where<K extends ModelField<M>, Op extends WhereFilterOp>(
+    field: K,
+    operator: Op,
+    value: WhereValue<M[K], Op>
+  ): Filter;
+  where(
+    field: Exclude<ModelFieldPath<M>, ModelField<M>>,
+    operator: WhereFilterOp,
+    value: unknown
+  ): Filter;
+  and(...filters: Filter[]): Filter;
+  or(...filters: Filter[]): Filter;
+}
+
+function createFilterFactory<M>(model: Function): FilterFactory<M> {
+  return {
+    where: (
+      field: string | FieldPath,
+      operator: WhereFilterOp,
+      value: unknown
+    ) =>
+      Filter.where(
+        toStoredPath(model, field),
+        operator,
+        toQueryValue(model, field, operator, value)
+      ),
+    and: (...filters: Filter[]) => Filter.and(...filters),
+    or: (...filters: Filter[]) => Filter.or(...filters),
+  };
+}
+
+type Cursor = DocumentSnapshot | unknown[];
+
+/**
+ * Chainable, immutable query builder returned by `Model.query()`.
+ * Every call returns a new builder; `get()` runs the query and returns hydrated
+ * model instances, populated the same way as `BaseModel.findAll`.
+ *
+ * @example
+ * ```typescript
+ * const adults = await User.query()
+ *   .where("age", ">=", 18)
+ *   .where((f) => f.or(f.where("status", "==", UserStatusEnum.ACTIVE), f.where("tags", "array-contains", "vip")))
+ *   .orderBy("age", "desc")
+ *   .orderBy("name")
+ *   .limit(20)
+ *   .get();
+ * ```
+ */
+export class QueryBuilder<M extends BaseModel> {
+  constructor(
+    private readonly model: BaseModelConstructor,
+    private readonly query: Query<M>,
+    private readonly options: Pick<FindOptions, "populate" | "populateSub"> = {}
+  ) {}
+
+  /** Adds a field condition, or a composite `Filter` (optionally built through a `FilterFactory`). */
+  where<K extends ModelField<M>, Op extends WhereFilterOp>(
+    field: K,
+    operator: Op,
+    value: WhereValue<M[K], Op>
+  ): QueryBuilder<M>;
+  where(
+    field: Exclude<ModelFieldPath<M>, ModelField<M>>,
+    operator: WhereFilterOp,
+    value: unknown
+  ): QueryBuilder<M>;
+  where(filter: Filter | ((f: FilterFactory<M>) => Filter)): QueryBuilder<M>;
+  where(
+    fieldOrFilter:
+      | string
+      | FieldPath
+      | Filter
+      | ((f: FilterFactory<M>) => Filter),
+    operator?: WhereFilterOp,
+    value?: unknown
+  ): QueryBuilder<M> {
+    if (fieldOrFilter instanceof Filter) {
+      return this.with(this.query.where(fieldOrFilter));
+    }
+    if (typeof fieldOrFilter === "function") {
+      return this.with(
+        this.query.where(fieldOrFilter(createFilterFactory<M>(this.model)))
+      );
+    }
+    if (!operator) {
+      throw new Error(
+        `[${this.model.name}] query().where("${String(fieldOrFilter)}") requires an operator.`
+      );
+    }
+    return this.with(
+      this.query.where(
+        toStoredPath(this.model, fieldOrFilter),
+        operator,
+        toQueryValue(this.model, fieldOrFilter, operator, value)
+      )
+    );
+  }
+
+  /** Adds a sort clause. Can be called multiple times; clauses apply in call order. */
+  orderBy(
+    field: ModelFieldPath<M>,
+    direction: OrderByDirection = "asc"
+  ): QueryBuilder<M> {
+    return this.with(
+      this.query.orderBy(toStoredPath(this.model, field), direction)
+    );
+  }
+
+  limit(limit: number): QueryBuilder<M> {
+    return this.with(this.query.limit(limit));
+  }
+
+  limitToLast(limit: number): QueryBuilder<M> {
+    return this.with(this.query.limitToLast(limit));
+  }
+
+  offset(offset: number): QueryBuilder<M> {
+    return this.with(this.query.offset(offset));
+  }
+
+  startAt(...cursor: Cursor[]): QueryBuilder<M> {
+    return this.with(this.query.startAt(...(cursor as any[])));
+  }
+
+  startAfter(...cursor: Cursor[]): QueryBuilder<M> {
+    return this.with(this.query.startAfter(...(cursor as any[])));
+  }
+
+  endAt(...cursor: Cursor[]): QueryBuilder<M> {
+    return this.with(this.query.endAt(...(cursor as any[])));
+  }
+
+  endBefore(...cursor: Cursor[]): QueryBuilder<M> {
+    return this.with(this.query.endBefore(...(cursor as any[])));
+  }
+
+  /** Relations to populate on each result (same semantics as `FindOptions.populate`). */
+  populate(populate: FindOptions["populate"]): QueryBuilder<M> {
+    return new QueryBuilder(this.model, this.query, {
+      ...this.options,
+      populate,
+    });
+  }
+
+  /** Subcollections to load on each result (same semantics as `FindOptions.populateSub`). */
+  populateSub(populateSub: string[]): QueryBuilder<M> {
+    return new QueryBuilder(this.model, this.query, {
+      ...this.options,
+      populateSub,
+    });
+  }
+
+  /** Returns the underlying Firestore query (with the model converter applied). */
+  toQuery(): Query<M> {
+    return this.query;
+  }
+
+  /** Runs the query and returns the hydrated instances. */
+  async get(): Promise<M[]> {
+    const snapshot = await this.query.get();
+    const results: M[] = snapshot.docs
+      .map((doc) => doc.data())
+      .filter((instance) => !!instance);
+    return this.model._applyPopulation(results, this.options);
+  }
+
+  /** Runs the query limited to one document and returns it, or `null`. */
+  async first(): Promise<M | null> {
+    const [first] = await this.limit(1).get();
+    return first ?? null;
+  }
+
+  private with(query: Query<M>): QueryBuilder<M> {
+    return new QueryBuilder(this.model, query, this.options);
+  }
+}
@@ -0,0 +1,41 @@
+import { DocumentSnapshot, Query } from "firebase-admin/firestore";
+import { getSoftDeleteMetadata } from "./decorators";
+import { toStoredPath } from "./field-names";
+import { SoftDeleteScope } from "./types";
+
+/**
+ * @internal Restricts a query to live documents (the default), soft-deleted
+ * documents (`onlyDeleted`) or both (`withDeleted`). No-op for models without `@SoftDelete`.
+ */
+export function applySoftDeleteScope<Q extends Query<any>>(
+  model: Function,
+  query: Q,
+  scope?: SoftDeleteScope
+): Q {
+  const meta = getSoftDeleteMetadata(model);
+  if (!meta || scope?.withDeleted) {
+    return query;
+  }
+  const field = toStoredPath(model, meta.field);
+  return (
+    scope?.onlyDeleted
+      ? query.where(field, "!=", null)
+      : query.where(field, "==", null)
+  ) as Q;
+}
+
+/**
+ * @internal Whether a loaded snapshot is excluded by the given scope.
+ */
+export function isExcludedBySoftDeleteScope(
+  model: Function,
+  snapshot: DocumentSnapshot,
+  scope?: SoftDeleteScope
+): boolean {
+  const meta = getSoftDeleteMetadata(model);
+  if (!meta || scope?.withDeleted) {
+    return false;
+  }
+  const deleted = snapshot.get(toStoredPath(model, meta.field)) != null;
+  return scope?.onlyDeleted ? !deleted : deleted;
+}
@@ -0,0 +1,122 @@
+import {
+  DocumentData,
+  FieldPath,
+  FieldValue,
+  WhereFilterOp,
+} from "firebase-admin/firestore";
+import { getConverter, getConverters } from "../config/converters";
+import { isPlainObject } from "./change-tracking";
+import { getEmbeddedMetadata, getTransformMetadata } from "./decorators";
+import { Transformer } from "./types";
+
+function findTransformer(
+  model: Function,
+  property: string | undefined
+): Transformer | undefined {
+  if (property === undefined) return undefined;
+  const meta = getTransformMetadata(model).find(
+    (t) => t.propertyName === property
+  );
+  if (!meta) return undefined;
+  return typeof meta.transformer === "string"
+    ? getConverter(meta.transformer)
+    : meta.transformer;
+}
+
+/** Applies the registered converters to a value and, recursively, to its array items and map values. */
+function convertValue(value: unknown): unknown {
+  const converter = getConverters().find((c) => c.test(value));
+  if (converter) return converter.toFirestore(value);
+  if (Array.isArray(value)) return value.map(convertValue);
+  if (isPlainObject(value)) {
+    const data: DocumentData = {};
+    for (const [key, entry] of Object.entries(value)) {
+      data[key] = convertValue(entry);
+    }
+    return data;
+  }
+  return value;
+}
+
+/**
+ * @internal Converts the value of a property (or of a dotted path, which only uses the
+ * registered converters) to its Firestore shape.
+ */
+export function toFirestoreValue(
+  model: Function,
+  property: string | undefined,
+  value: unknown
+): unknown {
+  if (value == null || value instanceof FieldValue) return value;
+  const transformer = findTransformer(model, property);
+  return transformer ? transformer.toFirestore(value) : convertValue(value);
+}
+
+/**
+ * @internal Converts a stored value back with the `@Transform` of the property, if any.
+ * The sub-documents of `@Embedded` properties are converted with their own class.
+ */
+export function fromFirestoreValue(
+  model: Function,
+  property: string,
+  value: unknown
+): unknown {
+  if (value == null) return value;
+  const transformer = findTransformer(model, property);
+  if (transformer) return transformer.fromFirestore(value);
+  const embedded = getEmbeddedMetadata(model).find(
+    (e) => e.propertyName === property
+  );
+  if (!embedded) return value;
+  const convert = (item: unknown) =>
+    isPlainObject(item)
+      ? fromFirestoreData(embedded.embeddedClass(), item)
+      : item;
+  if (!embedded.array) return convert(value);
+  return Array.isArray(value) ? value.map(convert) : value;
+}
+
+/**
+ * @internal Applies `fromFirestoreValue` to every property of loaded (property-named)
+ * data that has a `@Transform` or holds `@Embedded` sub-documents.
+ */
+export function fromFirestoreData(
+  model: Function,
+  data: DocumentData
+): DocumentData {
+  const converted: DocumentData = { ...data };
+  const properties = [
+    ...getTransformMetadata(model),
+    ...getEmbeddedMetadata(model),
+  ].map((meta) => meta.propertyName);
+  for (const propertyName of properties) {
+    if (propertyName in converted) {
+      converted[propertyName] = fromFirestoreValue(
+        model,
+        propertyName,
+        converted[propertyName]
+      );
+    }
+  }
+  return converted;
+}
+
+/**
+ * @internal Converts the value of a where clause. The elements of `in`/`not-in` lists
+ * are converted like the field itself, `array-contains` operands like array items.
+ */
+export function toQueryValue(
+  model: Function,
+  field: string | FieldPath,
+  operator: WhereFilterOp,
+  value: unknown
+): unknown {
+  const property = typeof field === "string" ? field : undefined;
+  if ((operator === "in" || operator === "not-in") && Array.isArray(value)) {
+    return value.map((item) => toFirestoreValue(model, property, item));
+  }
+  if (operator === "array-contains" || operator === "array-contains-any") {
+    return convertValue(value);
+  }
+  return toFirestoreValue(model, property, value);
+}
@@ -1,4 +1,7 @@
 import {
+  AggregateSpec,
+  AggregateSpecData,
+  BulkWriterOptions,
   CollectionReference,
   DocumentData,
   DocumentSnapshot,
@@ -8,15 +11,42 @@ import {
   Query,
   QueryDocumentSnapshot,
   SetOptions,
+  Timestamp,
   UpdateData,
   WhereFilterOp,
   WriteResult,
 } from "firebase-admin/firestore";
-import { ZodSchema } from "zod";
+import { RefinementCtx, ZodSchema } from "zod";
 import { BaseModel } from "./base-model";
+import type { WatchError } from "./errors";
+import type { PopulateContext } from "./population";
+import type { QueryBuilder } from "./query-builder";
 
-export interface FindOptions<T extends typeof BaseModel = any> {
-  populate?: (keyof T | string)[] | boolean;
+/** Controls how soft-deleted documents (see `@SoftDelete`) are treated by reads. */
+export interface SoftDeleteScope {
+  /** Include soft-deleted documents alongside live ones. */
+  withDeleted?: boolean;
+  /** Return only soft-deleted documents. */
+  onlyDeleted?: boolean;
+}
+
+/**
+ * Object form of a populate entry: populates `path` (dotted paths allowed), then
+ * `populate` on the documents it resolved to.
+ */
+export interface PopulatePath {
+  path: string;
+  populate?: PopulateOption[];
+}
+
+/** A relation to populate: a property name, a dotted path (`'department.head'`) or a `PopulatePath`. */
+export type PopulateOption = string | PopulatePath;
+
+export interface FindOptions<T extends typeof BaseModel = any>
+  extends SoftDeleteScope {
+  populate?: (keyof T | PopulateOption)[] | boolean;
+  /** Relation hops `populate` may follow; defaults to `setMaxPopulateDepth` (5). */
+  maxPopulateDepth?: number;
   populateSub?: string[];
   limit?: number;
   orderBy?: {
@@ -30,15 +60,282 @@ export interface FindOptions<T extends typeof BaseModel = any> {
   queryFn?: (ref: CollectionReference<T>) => Query<T>;
 }
 
+/**
+ * Names of the persisted properties of a model instance: every non-method
+ * property except `id` and the reference getters.
+ */
+export type ModelField<M> = Exclude<
+  {
+    [K in keyof M]-?: M[K] extends (...args: any[]) => any ? never : K;
+  }[keyof M],
+  "id" | "docRef" | "collectionRef"
+> &
+  string;
+
+/** Names of the model properties holding numbers (targets of `sum`/`average`). */
+export type NumericField<M> = {
+  [K in ModelField<M>]-?: NonNullable<M[K]> extends number ? K : never;
+}[ModelField<M>];
+
+/**
+ * A field of a model, a dotted path into one of its map fields, or a `FieldPath`.
+ */
+export type ModelFieldPath<M> =
+  | ModelField<M>
+  | `${ModelField<M>}.${string}`
+  | FieldPath;
+
+/** Value accepted in a query for a property of type `V` (Timestamps also accept `Date`). */
+export type QueryValue<V> = V extends Timestamp ? V | Date : V;
+
+/**
+ * Value accepted by `where()` for a property of type `V` combined with operator `Op`.
+ */
+export type WhereValue<V, Op extends WhereFilterOp> = Op extends "in" | "not-in"
+  ? ReadonlyArray<QueryValue<NonNullable<V>>>
+  : Op extends "array-contains"
+    ? NonNullable<V> extends ReadonlyArray<infer E>
+      ? E
+      : never
+    : Op extends "array-contains-any"
+      ? NonNullable<V> extends ReadonlyArray<infer E>
+        ? ReadonlyArray<E>
+        : never
+      : QueryValue<V> | null;
+
 export interface FindAllResult<T> {
   results: T[];
   lastVisible?: DocumentSnapshot;
 }
 
+export interface PaginateOrderBy<M = any> {
+  field: ModelFieldPath<M>;
+  direction?: OrderByDirection;
+}
+
+export interface PaginateOptions<M = any> extends SoftDeleteScope {
+  /** Number of items per page. */
+  pageSize: number;
+  /** Token returned as `nextPageToken`/`prevPageToken` by a previous call. */
+  pageToken?: string;
+  /** Sort clauses. The document ID is always appended as a tie-breaker. */
+  orderBy?: PaginateOrderBy<M> | PaginateOrderBy<M>[];
+  queryFn?: (ref: CollectionReference<M>) => Query<M>;
+  populate?: FindOptions["populate"];
+  populateSub?: string[];
+  /** Overrides the secret configured with `setPageTokenSecret`. */
+  secret?: string;
+}
+
+export interface PaginateResult<T> {
+  items: T[];
+  /** Token for the following page, absent on the last page. */
+  nextPageToken?: string;
+  /** Token for the preceding page, absent on the first page. */
+  prevPageToken?: string;
+  /** Whether a page exists after this one. */
+  hasMore: boolean;
+}
+
+export interface StreamOptions<M = any> extends SoftDeleteScope {
+  queryFn?: (ref: CollectionReference<M>) => Query<M>;
+  /** Documents read per round trip. Defaults to 100. */
+  batchSize?: number;
+  /** Maximum number of documents to yield in total. */
+  limit?: number;
+  populate?: FindOptions["populate"];
+  populateSub?: string[];
+}
+
+/** Changes delivered to `watch()` handlers, as hydrated model instances. */
+export interface WatchChanges<M> {
+  added: M[];
+  modified: M[];
+  removed: M[];
+}
+
+export interface WatchOptions extends SoftDeleteScope {
+  /** Relations to populate on added/modified instances before delivery. */
+  populate?: FindOptions["populate"];
+  populateSub?: string[];
+  /**
+   * Receives listener, hydration and handler failures. Required, so that no failure
+   * goes unnoticed; a failing listener is closed by Firestore, a failing handler keeps
+   * receiving the next snapshots.
+   */
+  onError: (error: WatchError) => void;
+}
+
+/** Options for `insertMany`, `updateMany` and `deleteMany`. */
+export interface BulkWriteOptions {
+  /** BulkWriter throttling (500 ops/s ramping up by default); `false` disables it. */
+  throttling?: BulkWriterOptions["throttling"];
+  /** Attempts per document for transient failures (ABORTED, UNAVAILABLE, RESOURCE_EXHAUSTED). Defaults to 10. */
+  maxRetries?: number;
+  /**
+   * Documents prepared and written per page by `insertMany`, and read per page by
+   * `updateMany`, `deleteMany` and `runMigrations`. Defaults to 300.
+   */
+  pageSize?: number;
+}
+
+/**
+ * A schema migration registered with `defineMigration`. Receives a copy of a
+ * document's stored data at the previous version; mutates it or returns the new data.
+ */
+export type MigrationFn = (data: DocumentData) => DocumentData | void;
+
+/** Options for `runMigrations`. */
+export interface RunMigrationsOptions extends BulkWriteOptions {
+  /**
+   * Resumes after this document ID, or document path for a `@SubCollectionModel`
+   * (see `MigrationReport.lastId`).
+   */
+  startAfter?: string;
+  /** Counts the documents to migrate without writing them. */
+  dryRun?: boolean;
+  /** Called after each page with the report so far. */
+  onProgress?: (report: MigrationReport) => void;
+}
+
+/** Report returned by `runMigrations`. */
+export interface MigrationReport {
+  /** Version the documents are migrated to: the highest registered. */
+  targetVersion: number;
+  scanned: number;
+  migrated: number;
+  /** Documents already at the target version. */
+  skipped: number;
+  /** Failed documents, by ID (by path for a `@SubCollectionModel`). */
+  failures: { id: string; error: unknown }[];
+  /**
+   * ID (path for a `@SubCollectionModel`) of the last document scanned; pass it as
+   * `startAfter` to resume.
+   */
+  lastId?: string;
+}
+
+/** Outcome of one document in a bulk operation. */
+export interface BulkWriteItemResult<M> {
+  /** Undefined when an insert failed before an ID was assigned. */
+  id?: string;
+  instance: M;
+  success: boolean;
+  /** Set when the write succeeded. */
+  result?: WriteResult;
+  /** Validation, hook or write failure for this document. */
+  error?: unknown;
+}
+
+/** Per-document report returned by `insertMany`, `updateMany` and `deleteMany`. */
+export interface BulkWriteReport<M> {
+  results: BulkWriteItemResult<M>[];
+  successCount: number;
+  failureCount: number;
+}
+
 export interface RelationMetadata<T extends typeof BaseModel = any> {
   propertyName: string;
   relatedModel: () => BaseModelConstructor<T>;
   lazy: boolean;
+  /** Set by `@RelationArray`: the property holds an array of references. */
+  array?: boolean;
+}
+
+/** Options of `@HasMany`, applied whenever the relation is resolved or populated. */
+export interface HasManyOptions {
+  orderBy?: { field: string | FieldPath; direction?: OrderByDirection };
+  limit?: number;
+}
+
+export interface HasManyMetadata<T extends typeof BaseModel = any>
+  extends HasManyOptions {
+  propertyName: string;
+  relatedModel: () => BaseModelConstructor<T>;
+  /** Field of the related model holding a `DocumentReference` to the owner. */
+  foreignKey: string;
+}
+
+/** Derives the Firestore field names of a model's properties (see `@Collection`). */
+export type NamingStrategy = "snake_case";
+
+export interface CollectionOptions {
+  /** Field naming of every property without an explicit `name`. */
+  naming?: NamingStrategy;
+}
+
+/**
+ * The `default` option of field decorators: a value (copied for each instance) or a
+ * factory called for each instance.
+ */
+export type FieldDefault<T> = T | (() => T);
+
+export interface FieldDefaultMetadata {
+  propertyName: string;
+  value: FieldDefault<unknown>;
+}
+
+export interface VirtualOptions {
+  /** Persisted fields the value is computed from; `isDirty()` on the virtual checks them. */
+  dependsOn?: string[];
+}
+
+export interface VirtualMetadata {
+  propertyName: string;
+  dependsOn: string[];
+  /** A getter without setter, left out when assigning data to instances. */
+  readonly: boolean;
+}
+
+export interface DateFieldMetadata {
+  propertyName: string;
+  /** Set when the property is empty on `save()`. */
+  autoFill: boolean;
+  /** Set on every `save()` and `update()`. */
+  onUpdate: boolean;
+  /** Written as `FieldValue.serverTimestamp()` and read back after direct writes. */
+  serverTimestamp: boolean;
+}
+
+/** Converts the values of a property between their domain and Firestore shapes. */
+export interface Transformer<TDomain = any, TStored = any> {
+  toFirestore(value: TDomain): TStored;
+  fromFirestore(value: TStored): TDomain;
+}
+
+/**
+ * A transformer registered with `registerConverter`. Values it recognizes are converted
+ * on write wherever they appear; reads use it through `@Transform(name)`.
+ */
+export interface TypeConverter<TDomain = any, TStored = any>
+  extends Transformer<TDomain, TStored> {
+  /** Recognizes the domain values to convert (e.g. `(v) => v instanceof Decimal`). */
+  test(value: unknown): boolean;
+}
+
+export interface TransformMetadata {
+  propertyName: string;
+  /** A transformer, or the name of a registered converter. */
+  transformer: Transformer | string;
+}
+
+/** A class used with `@Embedded`/`@EmbeddedArray`; it must be constructible without arguments. */
+export type EmbeddedConstructor<T = any> = new () => T;
+
+export interface EmbeddedMetadata {
+  propertyName: string;
+  embeddedClass: () => EmbeddedConstructor;
+  /** Declared with `@EmbeddedArray`. */
+  array: boolean;
+}
+
+/** A uniqueness constraint declared with `@Unique`; composite when it has several fields. */
+export interface UniqueConstraintMetadata {
+  fields: string[];
+}
+
+export interface SoftDeleteMetadata {
+  field: string;
 }
 
 export interface SubModelMetadata {
@@ -46,19 +343,44 @@ export interface SubModelMetadata {
   subPath: string
 }
 
-export interface SubCollectionMetadata<T extends typeof BaseModel = any> {
+/** Cascade flags shared by `@SubCollection` and `@SubCollectionDoc`. */
+export interface CascadeOptions {
+  /** Delete these children when the parent is deleted. */
+  cascade?: boolean;
+  /** Load each child and run its `beforeDelete`/`afterDelete` hooks while cascading. */
+  childHooks?: boolean;
+}
+
+export interface SubCollectionMetadata<T extends typeof BaseModel = any>
+  extends CascadeOptions {
   propertyName: string;
   name: string;
   model: () => BaseModelConstructor<T>;
 }
 
-export interface SubCollectionDocMetadata<T extends typeof BaseModel = any> {
+export interface SubCollectionDocMetadata<T extends typeof BaseModel = any>
+  extends CascadeOptions {
   propertyName: string;
   docId: string;
   subcollectionName: string;
   model: () => BaseModelConstructor<T>;
 }
 
+/**
+ * Options for `delete()`/`forceDelete()`. `cascade: true` deletes every declared
+ * subcollection, `false` none; when omitted, the decorators' `cascade` flags apply.
+ * `childHooks` overrides the decorators' flag of the same name.
+ */
+export interface DeleteOptions extends CascadeOptions {}
+
+/** Returned by `delete(options)`/`forceDelete(options)`. */
+export interface DeleteResult {
+  /** `undefined` inside a transaction or batch context. */
+  result: WriteResult | undefined;
+  /** Documents removed, including cascaded children and the document itself (0 for soft deletes). */
+  deletedCount: number;
+}
+
 export interface BaseModelConstructor<T extends typeof BaseModel = any> {
   new (data: Partial<Record<string, any>>, id?: string): T;
   schema?: ZodSchema<any>;
@@ -66,6 +388,14 @@ export interface BaseModelConstructor<T extends typeof BaseModel = any> {
   _getRelationMetadata(): RelationMetadata[];
   _getFirestoreConverter(): FirebaseFirestore.FirestoreDataConverter<T>;
   _fromFirestore(snapshot: DocumentSnapshot | QueryDocumentSnapshot): T | null;
+  _applyPopulation(
+    instances: T[],
+    options?: Pick<
+      FindOptions<T>,
+      "populate" | "populateSub" | "maxPopulateDepth"
+    >,
+    context?: PopulateContext
+  ): Promise<T[]>;
   getCollectionRef(): CollectionReference<T>;
   findById(id: string, options?: FindOptions<T>): Promise<T | null>;
   findAll(
@@ -83,6 +413,53 @@ export interface BaseModelConstructor<T extends typeof BaseModel = any> {
     queryFn: (ref: CollectionReference<T>) => Query<T>,
     options?: FindOptions<T>
   ): Promise<T | null>;
+  query(scope?: SoftDeleteScope): QueryBuilder<any>;
+  paginate(options: PaginateOptions): Promise<PaginateResult<any>>;
+  stream(options?: StreamOptions): AsyncGenerator<any, void, undefined>;
+  findAcrossParents(
+    queryFn?: (query: Query<any>) => Query<any>,
+    options?: Pick<
+      FindOptions<T>,
+      "populate" | "populateSub" | "withDeleted" | "onlyDeleted"
+    >
+  ): Promise<any[]>;
+  watch(
+    queryFn: ((ref: CollectionReference<any>) => Query<any>) | undefined,
+    handler: (changes: WatchChanges<any>) => void | Promise<void>,
+    options: WatchOptions
+  ): () => void;
+  insertMany(
+    instances: any[],
+    options?: BulkWriteOptions
+  ): Promise<BulkWriteReport<any>>;
+  updateMany(
+    queryFn: ((ref: CollectionReference<any>) => Query<any>) | undefined,
+    data: UpdateData<any>,
+    options?: BulkWriteOptions & SoftDeleteScope
+  ): Promise<BulkWriteReport<any>>;
+  deleteMany(
+    queryFn: ((ref: CollectionReference<any>) => Query<any>) | undefined,
+    options?: BulkWriteOptions & SoftDeleteScope & { force?: boolean }
+  ): Promise<BulkWriteReport<any>>;
+  count(
+    queryFn?: (ref: CollectionReference<any>) => Query<any>,
+    scope?: SoftDeleteScope
+  ): Promise<number>;
+  sum(
+    field: string,
+    queryFn?: (ref: CollectionReference<any>) => Query<any>,
+    scope?: SoftDeleteScope
+  ): Promise<number>;
+  average(
+    field: string,
+    queryFn?: (ref: CollectionReference<any>) => Query<any>,
+    scope?: SoftDeleteScope
+  ): Promise<number | null>;
+  aggregate<S extends AggregateSpec>(
+    spec: S,
+    queryFn?: (ref: CollectionReference<any>) => Query<any>,
+    scope?: SoftDeleteScope
+  ): Promise<AggregateSpecData<S>>;
 }
 
 export interface BaseModelInterface {
@@ -93,12 +470,25 @@ export interface BaseModelInterface {
     updateData: PartialWithFieldValue<this> | UpdateData<this>
   ): Promise<WriteResult | undefined>;
   delete(): Promise<WriteResult | undefined>;
+  delete(options: DeleteOptions): Promise<DeleteResult>;
+  forceDelete(): Promise<WriteResult | undefined>;
+  forceDelete(options: DeleteOptions): Promise<DeleteResult>;
+  restore(): Promise<WriteResult | undefined>;
   reload<T extends typeof BaseModel>(
     this: T,
     options?: Pick<FindOptions<T>, "populate">
   ): Promise<T>;
-  populate<K extends keyof this>(fieldNames: K | K[] | boolean): Promise<void>;
+  populate<K extends keyof this>(
+    fieldNames:
+      | K
+      | `${K & string}.${string}`
+      | PopulatePath
+      | (K | `${K & string}.${string}` | PopulatePath)[]
+      | boolean,
+    options?: { maxDepth?: number }
+  ): Promise<void>;
   validate(dataToValidate?: DocumentData): void;
+  validateModel(data: DocumentData, ctx: RefinementCtx): void;
   beforeSave(options?: SetOptions): Promise<void> | void;
   afterSave(result: WriteResult, options?: SetOptions): Promise<void> | void;
   beforeUpdate(data: UpdateData<this>): Promise<void> | void;
@@ -108,6 +498,8 @@ export interface BaseModelInterface {
   ): Promise<void> | void;
   beforeDelete(): Promise<void> | void;
   afterDelete(result: WriteResult, originalId: string): Promise<void> | void;
+  beforeRestore(): Promise<void> | void;
+  afterRestore(result: WriteResult): Promise<void> | void;
   afterLoad(
     snapshot: DocumentSnapshot | QueryDocumentSnapshot
   ): Promise<void> | void;
@@ -0,0 +1,299 @@
+import { createHash } from "crypto";
+import {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  FieldValue,
+  GeoPoint,
+  Timestamp,
+  Transaction,
+  UpdateData,
+  WriteBatch,
+  WriteResult,
+} from "firebase-admin/firestore";
+import { getFirestoreInstance } from "../config/firestore-instance";
+import { BaseModel, modelInternals } from "./base-model";
+import { getUniqueConstraints } from "./decorators";
+import { ConflictError, UniqueConstraintError } from "./errors";
+import { UniqueConstraintMetadata } from "./types";
+
+/** Collection holding one reservation document per unique value. */
+const UNIQUE_COLLECTION = "_unique";
+
+/** A value (or combination of values) held by a document. */
+interface Reservation {
+  constraint: UniqueConstraintMetadata;
+  values: unknown[];
+  ref: DocumentReference;
+}
+
+/**
+ * @internal Reservation changes of one write, computed (and checked against the
+ * stored reservations) before the write.
+ */
+export interface UniqueWrites {
+  /** Adds the reservation writes to the transaction or batch writing the document. */
+  apply(writer: Transaction | WriteBatch): void;
+  /**
+   * After a failed commit, finds the reservation changed concurrently: a value
+   * taken by another document, or a released reservation changed meanwhile.
+   */
+  findConflict(): Promise<UniqueConstraintError | ConflictError | undefined>;
+}
+
+/** Stable key of a stored value; `null` for missing values, which are not constrained. */
+function valueKey(value: unknown): unknown {
+  if (value == null) return null;
+  if (value instanceof DocumentReference) return { ref: value.path };
+  if (value instanceof Timestamp) return { ts: value.toMillis() };
+  if (value instanceof Date) return { ts: value.getTime() };
+  if (value instanceof GeoPoint) {
+    return { geo: [value.latitude, value.longitude] };
+  }
+  return value;
+}
+
+function reservationFor(
+  instance: BaseModel,
+  constraint: UniqueConstraintMetadata,
+  data: DocumentData
+): Reservation | null {
+  const values = constraint.fields.map((field) => data[field]);
+  const keys = values.map(valueKey);
+  if (keys.some((key) => key === null)) return null;
+  // Scoped to the collection, so sibling subcollections are independent
+  const id = createHash("sha256")
+    .update(
+      JSON.stringify([instance.docRef.parent.path, constraint.fields, keys])
+    )
+    .digest("hex");
+  return {
+    constraint,
+    values,
+    ref: getFirestoreInstance().collection(UNIQUE_COLLECTION).doc(id),
+  };
+}
+
+/**
+ * Reads reservations, through `transaction` when given. Firestore refuses reads in a
+ * transaction that already queued writes, so unique models must be written first.
+ */
+function getAll(
+  model: typeof BaseModel,
+  refs: DocumentReference[],
+  transaction?: Transaction
+): Promise<DocumentSnapshot[]> {
+  if (refs.length === 0) return Promise.resolve([]);
+  if (!transaction) return getFirestoreInstance().getAll(...refs);
+  try {
+    return transaction.getAll(...refs);
+  } catch (error) {
+    throw new Error(
+      `[${model.name}] Unique reservations are read through the transaction: write ${model.name} before the other writes of runInTransaction. ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Compares the reservations of `previous` and `next` for `constraints`, checks the
+ * values to take against the stored reservations and returns the writes to make.
+ * Without `previous` (state unknown), reservations already held by the document are kept.
+ */
+async function prepare(
+  instance: BaseModel,
+  constraints: UniqueConstraintMetadata[],
+  next: DocumentData,
+  previous: DocumentData | undefined,
+  transaction?: Transaction
+): Promise<UniqueWrites | undefined> {
+  const model = instance.constructor as typeof BaseModel;
+  const docRef = instance.docRef;
+  const toTake: Reservation[] = [];
+  const toRelease: Reservation[] = [];
+  for (const constraint of constraints) {
+    const taken = reservationFor(instance, constraint, next);
+    const held = previous && reservationFor(instance, constraint, previous);
+    if (previous && taken?.ref.path === held?.ref.path) continue;
+    if (taken) toTake.push(taken);
+    if (held) toRelease.push(held);
+  }
+  if (toTake.length === 0 && toRelease.length === 0) return undefined;
+
+  const isOwned = (snapshot: DocumentSnapshot) =>
+    snapshot.get("ref")?.path === docRef.path;
+  const conflictOf = (reservation: Reservation, snapshot: DocumentSnapshot) =>
+    new UniqueConstraintError(
+      model.name,
+      reservation.constraint.fields,
+      reservation.values,
+      snapshot.get("ref")?.id
+    );
+
+  const [takenSnaps, heldSnaps] = await Promise.all([
+    getAll(
+      model,
+      toTake.map((r) => r.ref),
+      transaction
+    ),
+    getAll(
+      model,
+      toRelease.map((r) => r.ref),
+      transaction
+    ),
+  ]);
+  const creates: Reservation[] = [];
+  toTake.forEach((reservation, i) => {
+    const snapshot = takenSnaps[i];
+    if (!snapshot.exists) creates.push(reservation);
+    else if (!isOwned(snapshot)) throw conflictOf(reservation, snapshot);
+  });
+  // Only release what this document still holds
+  const releases = heldSnaps.filter((s) => s.exists && isOwned(s));
+  if (creates.length === 0 && releases.length === 0) return undefined;
+
+  return {
+    apply(writer) {
+      for (const reservation of creates) {
+        // `create` fails the commit if another document took the value meanwhile
+        writer.create(reservation.ref, {
+          collection: docRef.parent.path,
+          fields: reservation.constraint.fields,
+          values: reservation.values,
+          ref: docRef,
+        });
+      }
+      for (const snapshot of releases) {
+        writer.delete(snapshot.ref, { lastUpdateTime: snapshot.updateTime! });
+      }
+    },
+    async findConflict() {
+      const [createdSnaps, releasedSnaps] = await Promise.all([
+        getAll(
+          model,
+          creates.map((r) => r.ref)
+        ),
+        getAll(
+          model,
+          releases.map((s) => s.ref)
+        ),
+      ]);
+      for (let i = 0; i < creates.length; i++) {
+        if (createdSnaps[i].exists && !isOwned(createdSnaps[i])) {
+          return conflictOf(creates[i], createdSnaps[i]);
+        }
+      }
+      const changed = releasedSnaps.some(
+        (snapshot, i) => !snapshot.updateTime?.isEqual(releases[i].updateTime!)
+      );
+      if (changed) {
+        return new ConflictError(
+          model.name,
+          docRef.id,
+          null,
+          null,
+          "a @Unique reservation it releases was changed by a concurrent write"
+        );
+      }
+      return undefined;
+    },
+  };
+}
+
+/** @internal Reservation changes of `save()` writing `data`. */
+export function prepareUniqueSave(
+  instance: BaseModel,
+  data: DocumentData,
+  transaction?: Transaction
+): Promise<UniqueWrites | undefined> {
+  const constraints = getUniqueConstraints(instance.constructor);
+  if (constraints.length === 0) return Promise.resolve(undefined);
+  return prepare(
+    instance,
+    constraints,
+    data,
+    modelInternals(instance).loadedState(),
+    transaction
+  );
+}
+
+/**
+ * @internal Reservation changes of `update()` writing `updateData`, for the
+ * constraints it touches. Unique fields cannot take `FieldValue`s other than `delete()`.
+ */
+export function prepareUniqueUpdate(
+  instance: BaseModel,
+  updateData: UpdateData<any>,
+  transaction?: Transaction
+): Promise<UniqueWrites | undefined> {
+  const model = instance.constructor as typeof BaseModel;
+  const touched = Object.keys(updateData).map((key) => key.split(".")[0]);
+  const constraints = getUniqueConstraints(model).filter((c) =>
+    c.fields.some((field) => touched.includes(field))
+  );
+  if (constraints.length === 0) return Promise.resolve(undefined);
+
+  const next: DocumentData = modelInternals(instance).currentState();
+  for (const [key, value] of Object.entries(updateData)) {
+    const field = key.split(".")[0];
+    if (!constraints.some((c) => c.fields.includes(field))) continue;
+    if (
+      key.includes(".") ||
+      (value instanceof FieldValue && value !== FieldValue.delete())
+    ) {
+      throw new Error(
+        `[${model.name}] Unique field '${field}' must be updated with a plain value.`
+      );
+    }
+    next[field] = value === FieldValue.delete() ? undefined : value;
+  }
+  return prepare(
+    instance,
+    constraints,
+    next,
+    modelInternals(instance).loadedState(),
+    transaction
+  );
+}
+
+/**
+ * @internal Releases every reservation held by a document being hard deleted.
+ * Soft deletes keep them, so `restore()` never finds its values taken.
+ */
+export function prepareUniqueRelease(
+  instance: BaseModel,
+  transaction?: Transaction
+): Promise<UniqueWrites | undefined> {
+  const constraints = getUniqueConstraints(instance.constructor);
+  if (constraints.length === 0) return Promise.resolve(undefined);
+  const internals = modelInternals(instance);
+  const previous = internals.loadedState() ?? internals.currentState();
+  return prepare(instance, constraints, {}, previous, transaction);
+}
+
+/**
+ * @internal Commits a document write together with its reservation changes in one
+ * batch, turning a reservation taken concurrently into a `UniqueConstraintError`
+ * and a released reservation changed concurrently into a `ConflictError`.
+ * @returns The `WriteResult` of the document write.
+ */
+export async function commitWithUniqueWrites(
+  unique: UniqueWrites,
+  write: (batch: WriteBatch) => void
+): Promise<WriteResult> {
+  const batch = getFirestoreInstance().batch();
+  write(batch);
+  unique.apply(batch);
+  try {
+    const [result] = await batch.commit();
+    return result;
+  } catch (error) {
+    // 6 = ALREADY_EXISTS (a create), 9 = FAILED_PRECONDITION (a release or,
+    // for versioned models, the document write itself)
+    const code = (error as any)?.code;
+    if (code === 6 || code === 9) {
+      const conflict = await unique.findConflict();
+      if (conflict) throw conflict;
+    }
+    throw error;
+  }
+}
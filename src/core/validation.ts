@@ -1,7 +1,29 @@
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
 import "reflect-metadata";
-import { z, ZodSchema, ZodTypeAny } from "zod";
+import {
+  z,
+  ZodAny,
+  ZodArray,
+  ZodDefault,
+  ZodEffects,
+  ZodIssue,
+  ZodIssueCode,
+  ZodLazy,
+  ZodNullable,
+  ZodNumber,
+  ZodObject,
+  ZodOptional,
+  ZodRecord,
+  ZodSchema,
+  ZodTypeAny,
+  ZodUnion,
+  ZodUnknown,
+} from "zod";
+import { joinPath, readFieldValue, splitPath } from "./change-tracking";
+import { prototypeChain } from "./decorators";
 
 const VALIDATION_KEY = Symbol("validation:properties");
+const MODEL_VALIDATION_KEY = Symbol("validation:model");
 
 /**
  * Decorator to attach a Zod schema to a class property.
@@ -15,6 +37,53 @@ export function Validate(schema: ZodTypeAny) {
   };
 }
 
+/**
+ * Class decorator for rules involving several fields. `refine` receives the schema built
+ * from the property decorators and returns it refined, typically with `superRefine`
+ * reporting issues on the offending paths. The rules run on `save()`, and on `update()`
+ * against the stored state merged with the payload.
+ * @example
+ * ```typescript
+ * @ValidateModel((schema) =>
+ *   schema.superRefine((booking, ctx) => {
+ *     if (booking.endsAt.toMillis() <= booking.startsAt.toMillis()) {
+ *       ctx.addIssue({ code: 'custom', path: ['endsAt'], message: 'Must be after startsAt' });
+ *     }
+ *   })
+ * )
+ * @Collection('bookings')
+ * class Booking extends BaseModel { ... }
+ * ```
+ */
+export function ValidateModel(refine: (schema: ZodTypeAny) => ZodTypeAny) {
+  return function <T extends { new (...args: any[]): {} }>(constructor: T) {
+    const rules: ((schema: ZodTypeAny) => ZodTypeAny)[] =
+      Reflect.getOwnMetadata(MODEL_VALIDATION_KEY, constructor) || [];
+    rules.push(refine);
+    Reflect.defineMetadata(MODEL_VALIDATION_KEY, rules, constructor);
+    return constructor;
+  };
+}
+
+/** Applies the `@ValidateModel` rules of the class and its ancestors (ancestors first). */
+function applyModelRules(ctor: Function, schema: ZodTypeAny): ZodTypeAny {
+  let refined = schema;
+  for (const target of prototypeChain(ctor).reverse()) {
+    const rules: ((schema: ZodTypeAny) => ZodTypeAny)[] =
+      Reflect.getOwnMetadata(MODEL_VALIDATION_KEY, target) || [];
+    for (const rule of rules) refined = rule(refined);
+  }
+  return refined;
+}
+
+/**
+ * Builds a schema running only the `@ValidateModel` rules of the class, used to check
+ * the state a document will have after an update.
+ */
+export function getModelRulesSchema(ctor: Function): ZodTypeAny {
+  return applyModelRules(ctor, z.object({}).passthrough());
+}
+
 /**
  * Builds a Zod schema for the class by collecting all @Validate decorators.
  * Returns a ZodType that parses into the class instance type T.
@@ -22,10 +91,153 @@ export function Validate(schema: ZodTypeAny) {
 export function getValidationSchema<T>(
   ctor: new (...args: any[]) => T
 ): ZodSchema<T> {
-  const shape: Record<string, ZodTypeAny> =
-    Reflect.getOwnMetadata(VALIDATION_KEY, ctor) || {};
-  const base = z.object(shape).strict();
+  const base = applyModelRules(ctor, getObjectSchema(ctor));
   // Transform to cast the parsed object into the class instance shape
   // Cast to ZodSchema<T> to satisfy TS typing
   return base.transform((obj) => obj as T) as unknown as ZodSchema<T>;
 }
+
+/**
+ * Builds the strict object schema of the properties decorated on `ctor`. Also used for
+ * the classes of `@Embedded` properties.
+ */
+export function getObjectSchema(ctor: Function): ZodObject<any> {
+  const shape: Record<string, ZodTypeAny> =
+    Reflect.getOwnMetadata(VALIDATION_KEY, ctor) || {};
+  return z.object(shape).strict();
+}
+
+/** Strips the wrappers that do not change the type of a value (optional, default, refinements...). */
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  let current = schema;
+  while (true) {
+    if (current instanceof ZodOptional || current instanceof ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof ZodDefault) {
+      current = current.removeDefault();
+    } else if (current instanceof ZodEffects) {
+      current = current.innerType();
+    } else if (current instanceof ZodLazy) {
+      current = current.schema;
+    } else {
+      return current;
+    }
+  }
+}
+
+/** Whether values of `schema` can be of the Zod type `type`. */
+function acceptsType(
+  schema: ZodTypeAny,
+  type: new (...args: any[]) => ZodTypeAny
+): boolean {
+  const inner = unwrap(schema);
+  if (inner instanceof ZodUnion) {
+    return (inner.options as ZodTypeAny[]).some((option) =>
+      acceptsType(option, type)
+    );
+  }
+  return (
+    inner instanceof ZodAny ||
+    inner instanceof ZodUnknown ||
+    inner instanceof type
+  );
+}
+
+/** Checks a `FieldValue` sentinel against the schema of the field it is written to. */
+function fieldValueIssue(
+  schema: ZodTypeAny,
+  value: FieldValue,
+  deletable: boolean
+): string | undefined {
+  const operation = readFieldValue(value);
+  switch (operation.kind) {
+    case "delete":
+      return deletable || schema.safeParse(undefined).success
+        ? undefined
+        : "Required field cannot be deleted";
+    case "serverTimestamp":
+      return schema.safeParse(Timestamp.now()).success
+        ? undefined
+        : "serverTimestamp() can only be written to a Timestamp field";
+    case "increment":
+      return acceptsType(schema, ZodNumber)
+        ? undefined
+        : "increment() can only be applied to a number field";
+    case "arrayUnion":
+    case "arrayRemove":
+      return acceptsType(schema, ZodArray)
+        ? undefined
+        : `${operation.kind}() can only be applied to an array field`;
+  }
+}
+
+/**
+ * Validates an `update()` payload against a partial version of the class schema:
+ * only the given keys are checked, each against the schema it resolves to. Dotted
+ * paths resolve into the schemas of map fields (`MapField` values, nested objects),
+ * and `FieldValue` sentinels are checked against the type of their target.
+ * @returns The issues found, with paths starting at the payload keys.
+ */
+export function getUpdateIssues(
+  ctor: Function,
+  updateData: Record<string, unknown>
+): ZodIssue[] {
+  const shape: Record<string, ZodTypeAny> =
+    Reflect.getOwnMetadata(VALIDATION_KEY, ctor) || {};
+  const issues: ZodIssue[] = [];
+
+  for (const [key, value] of Object.entries(updateData)) {
+    const path = splitPath(key);
+    const issue = (message: string) =>
+      issues.push({ code: ZodIssueCode.custom, path, message });
+
+    let schema: ZodTypeAny | undefined = shape[path[0]];
+    if (!schema) {
+      issues.push({
+        code: ZodIssueCode.unrecognized_keys,
+        keys: [path[0]],
+        path: [],
+        message: `Unrecognized key(s) in object: '${path[0]}'`,
+      });
+      continue;
+    }
+    // Entries of a record can be removed, unlike required properties
+    let deletable = false;
+    for (let i = 1; i < path.length && schema; i++) {
+      const container = unwrap(schema);
+      if (container instanceof ZodRecord) {
+        schema = container.valueSchema;
+        deletable = true;
+      } else if (container instanceof ZodObject) {
+        schema = container.shape[path[i]];
+        deletable = false;
+        if (!schema && container._def.unknownKeys === "strict") {
+          issue(`Unrecognized key '${path[i]}'`);
+        }
+      } else if (
+        container instanceof ZodAny ||
+        container instanceof ZodUnknown
+      ) {
+        schema = undefined;
+      } else {
+        issue(`'${joinPath(path.slice(0, i))}' is not a map field`);
+        schema = undefined;
+      }
+    }
+    // Paths the schema does not describe are not checked
+    if (!schema) continue;
+
+    if (value instanceof FieldValue) {
+      const message = fieldValueIssue(schema, value, deletable);
+      if (message) issue(message);
+      continue;
+    }
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      for (const nested of result.error.issues) {
+        issues.push({ ...nested, path: [...path, ...nested.path] });
+      }
+    }
+  }
+  return issues;
+}
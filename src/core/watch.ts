@@ -0,0 +1,115 @@
+import { DocumentSnapshot, Query } from "firebase-admin/firestore";
+import type { BaseModel } from "./base-model";
+import { WatchError } from "./errors";
+import { BaseModelConstructor, WatchChanges, WatchOptions } from "./types";
+
+/**
+ * Serializes asynchronous snapshot processing so handlers see snapshots in order,
+ * routes failures to `onError`, and stops delivering once unsubscribed.
+ */
+function createDispatcher(model: BaseModelConstructor, options: WatchOptions) {
+  let chain: Promise<void> = Promise.resolve();
+  let active = true;
+  let unsubscribe: (() => void) | undefined;
+
+  const stop = () => {
+    active = false;
+    unsubscribe?.();
+    unsubscribe = undefined;
+  };
+
+  const fail = (error: unknown) => {
+    if (!active) return;
+    options.onError(
+      error instanceof WatchError ? error : new WatchError(model.name, error)
+    );
+  };
+
+  return {
+    enqueue(task: () => Promise<void>) {
+      chain = chain.then(() => (active ? task() : undefined)).catch(fail);
+    },
+    fail,
+    /** Registers the Firestore unsubscribe function, called once on `stop()`. */
+    attach(listener: () => void) {
+      unsubscribe = listener;
+      if (!active) listener();
+    },
+    stop,
+  };
+}
+
+/**
+ * @internal Implementation of the static `BaseModel.watch`: listens to a query
+ * and delivers each snapshot's changes as hydrated instances.
+ */
+export function watchQuery<M extends BaseModel>(
+  model: BaseModelConstructor,
+  query: Query<M>,
+  handler: (changes: WatchChanges<M>) => void | Promise<void>,
+  options: WatchOptions
+): () => void {
+  const dispatcher = createDispatcher(model, options);
+
+  const unsubscribe = query.onSnapshot((snapshot) => {
+    dispatcher.enqueue(async () => {
+      const changes: WatchChanges<M> = { added: [], modified: [], removed: [] };
+      for (const change of snapshot.docChanges()) {
+        const instance = change.doc.data();
+        if (!instance) continue;
+        changes[change.type].push(instance);
+      }
+      await model._applyPopulation(
+        [...changes.added, ...changes.modified],
+        options
+      );
+      await handler(changes);
+    });
+  }, dispatcher.fail);
+  dispatcher.attach(unsubscribe);
+
+  return dispatcher.stop;
+}
+
+/**
+ * @internal Implementation of the instance `BaseModel.watch`: listens to a single
+ * document and delivers it as `added` (first snapshot or re-creation),
+ * `modified` or `removed` (with the last known state).
+ */
+export function watchDocument<M extends BaseModel>(
+  instance: M,
+  handler: (changes: WatchChanges<M>) => void | Promise<void>,
+  options: WatchOptions
+): () => void {
+  const model = instance.constructor as BaseModelConstructor;
+  const dispatcher = createDispatcher(model, options);
+  let last: M | null = null;
+
+  const unsubscribe = instance.docRef.onSnapshot(
+    (snapshot: DocumentSnapshot) => {
+      dispatcher.enqueue(async () => {
+        const changes: WatchChanges<M> = {
+          added: [],
+          modified: [],
+          removed: [],
+        };
+        const current = model._fromFirestore(snapshot) as M | null;
+        if (current) {
+          (current as any).__parent = (instance as any).__parent;
+          await model._applyPopulation([current], options);
+          (last ? changes.modified : changes.added).push(current);
+        } else if (last) {
+          changes.removed.push(last);
+        } else {
+          return;
+        }
+        last = current;
+        await handler(changes);
+      });
+    },
+    dispatcher.fail
+  );
+  dispatcher.attach(unsubscribe);
+
+  return dispatcher.stop;
+}
@@ -1,51 +1,122 @@
 // --- Core ORM ---
 export { BaseModel } from "./core/base-model";
+export { QueryBuilder } from "./core/query-builder";
+export type { FilterFactory } from "./core/query-builder";
+export type { FieldChange } from "./core/change-tracking";
+export { defineMigration, runMigrations } from "./core/migrations";
 
 // --- Decorators ---
 export {
   ArrayField,
   BooleanField,
   Collection,
+  DateField,
   SubCollectionModel,
   DocumentReferenceField,
   EmailField,
+  Embedded,
+  EmbeddedArray,
+  Field,
   GeoPointField,
+  HasMany,
   MapField,
   NumberField,
   Relation,
+  RelationArray,
+  SoftDelete,
   StringField,
   TimestampField,
+  VersionField,
   EnumField,
   SubCollection,
-  SubCollectionDoc
+  SubCollectionDoc,
+  Transform,
+  Unique,
+  Virtual,
 } from "./core/decorators";
+export { ValidateModel } from "./core/validation";
 
 // --- Types and Interfaces ---
 export type {
   BaseModelInterface,
+  BulkWriteItemResult,
+  BulkWriteOptions,
+  BulkWriteReport,
+  CascadeOptions,
+  CollectionOptions,
+  DateFieldMetadata,
+  DeleteOptions,
+  DeleteResult,
+  EmbeddedConstructor,
+  EmbeddedMetadata,
+  FieldDefault,
   FindAllResult,
   FindOptions,
+  HasManyMetadata,
+  HasManyOptions,
+  MigrationFn,
+  MigrationReport,
+  ModelField,
+  ModelFieldPath,
+  NamingStrategy,
+  NumericField,
+  PaginateOptions,
+  PaginateOrderBy,
+  PaginateResult,
+  PopulateOption,
+  PopulatePath,
+  QueryValue,
   RelationMetadata,
+  RunMigrationsOptions,
+  SoftDeleteMetadata,
+  SoftDeleteScope,
+  StreamOptions,
   SubModelMetadata,
   SubCollectionMetadata,
-  SubCollectionDocMetadata
+  SubCollectionDocMetadata,
+  TransformMetadata,
+  Transformer,
+  TypeConverter,
+  UniqueConstraintMetadata,
+  VirtualMetadata,
+  VirtualOptions,
+  WatchChanges,
+  WatchOptions,
+  WhereValue,
 } from "./core/types";
 
 // --- Errors ---
-export { NotFoundError, ValidationError } from "./core/errors";
+export {
+  ConflictError,
+  InvalidPageTokenError,
+  MigrationError,
+  NotFoundError,
+  OrmError,
+  UniqueConstraintError,
+  ValidationError,
+  WatchError,
+} from "./core/errors";
 
 // --- Initialization Helper ---
 export {
   getFirestoreInstance,
   setFirestoreInstance,
 } from "./config/firestore-instance";
+export { setPageTokenSecret } from "./config/page-token-secret";
+export { setMaxPopulateDepth } from "./config/populate-depth";
+export { registerConverter } from "./config/converters";
 
 export {
+  AggregateField,
+  AggregateSpec,
+  AggregateSpecData,
   CollectionReference,
   DocumentData,
   DocumentReference,
   DocumentSnapshot,
+  FieldPath,
   FieldValue,
+  Filter,
   GeoPoint,
   OrderByDirection,
   Query,
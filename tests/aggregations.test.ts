@@ -0,0 +1,72 @@
+import {
+  AggregateField,
+  BaseModel,
+  Collection,
+  NumberField,
+  StringField,
+  SubCollection,
+  SubCollectionModel,
+} from "../src";
+import { User, UserStatusEnum } from "./helpers/models";
+
+@Collection("wallets")
+class Wallet extends BaseModel {
+  @StringField({ required: true })
+  owner!: string;
+
+  @SubCollection(() => Voucher, "vouchers")
+  vouchers?: Voucher[];
+}
+
+@SubCollectionModel(() => Wallet, "vouchers")
+class Voucher extends BaseModel {
+  @NumberField({ required: true })
+  balance!: number;
+
+  constructor(data: Partial<Voucher>, idOrParent?: string | BaseModel) {
+    super(data, idOrParent);
+  }
+}
+
+describe("BaseModel - Aggregations", () => {
+  beforeEach(async () => {
+    await new User({ name: "A", email: "a@test.com", age: 20, loginCount: 3, status: UserStatusEnum.ACTIVE }).save();
+    await new User({ name: "B", email: "b@test.com", age: 30, loginCount: 5, status: UserStatusEnum.ACTIVE }).save();
+    await new User({ name: "C", email: "c@test.com", age: 40, loginCount: 10, status: UserStatusEnum.INACTIVE }).save();
+  });
+
+  it("should count documents with and without a query", async () => {
+    expect(await User.count()).toBe(3);
+    expect(await User.count((ref) => ref.where("status", "==", UserStatusEnum.ACTIVE))).toBe(2);
+  });
+
+  it("should sum and average numeric fields", async () => {
+    expect(await User.sum("loginCount")).toBe(18);
+    expect(await User.average("age")).toBe(30);
+    expect(await User.average("age", (ref) => ref.where("age", ">", 100))).toBeNull();
+  });
+
+  it("should run several aggregations at once", async () => {
+    const result = await User.aggregate(
+      {
+        total: AggregateField.count(),
+        logins: AggregateField.sum("loginCount"),
+        avgAge: AggregateField.average("age"),
+      },
+      (ref) => ref.where("status", "==", UserStatusEnum.ACTIVE)
+    );
+    expect(result).toEqual({ total: 2, logins: 8, avgAge: 25 });
+  });
+
+  it("should count @SubCollection documents on an instance", async () => {
+    const wallet = new Wallet({ owner: "Ann" });
+    await wallet.save();
+    await new Voucher({ balance: 0 }, wallet).save();
+    await new Voucher({ balance: 15 }, wallet).save();
+
+    expect(await wallet.countSubcollection("vouchers")).toBe(2);
+    expect(
+      await wallet.countSubcollection<Voucher>("vouchers", (ref) => ref.where("balance", ">", 0))
+    ).toBe(1);
+  });
+});
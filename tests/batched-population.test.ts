@@ -0,0 +1,102 @@
+import { DocumentReference, getFirestoreInstance } from "../src";
+import { Department, User } from "./helpers/models";
+
+describe("BaseModel - Batched relation population", () => {
+  let departments: Department[];
+
+  beforeEach(async () => {
+    departments = [];
+    for (const name of ["Sales", "Ops", "R&D"]) {
+      const dept = new Department({ name });
+      await dept.save();
+      departments.push(dept);
+    }
+    const boss = new User({ name: "Boss", email: "boss@test.com" });
+    await boss.save();
+
+    for (let i = 0; i < 12; i++) {
+      await new User({
+        name: `Employee ${i}`,
+        email: `e${i}@test.com`,
+        department: departments[i % 3].docRef,
+        manager: boss.docRef,
+      }).save();
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should read every relation of a listing with a single getAll()", async () => {
+    const getAll = jest.spyOn(getFirestoreInstance(), "getAll");
+
+    const { results } = await User.findAll({
+      queryFn: (ref) => ref.where("name", ">=", "Employee"),
+      populate: ["department", "manager"],
+    });
+
+    expect(results).toHaveLength(12);
+    expect(getAll).toHaveBeenCalledTimes(1);
+    // 3 departments + 1 manager, deduplicated
+    expect(getAll.mock.calls[0]).toHaveLength(4);
+
+    for (const user of results) {
+      expect(user.department).toBeInstanceOf(Department);
+      expect(user.manager).toBeInstanceOf(User);
+      expect((user.manager as User).name).toBe("Boss");
+    }
+    const sales = results.filter(
+      (u) => (u.department as Department).name === "Sales"
+    );
+    expect(sales).toHaveLength(4);
+    // Rows pointing at the same document share the hydrated instance
+    expect(sales[0].department).toBe(sales[1].department);
+  });
+
+  it("should leave dangling references unresolved", async () => {
+    await departments[0].delete();
+
+    const { results } = await User.findAll({
+      queryFn: (ref) => ref.where("name", ">=", "Employee"),
+      populate: ["department"],
+    });
+
+    const orphans = results.filter(
+      (u) => u.department instanceof DocumentReference
+    );
+    expect(orphans).toHaveLength(4);
+    expect(orphans[0].isDirty()).toBe(false);
+  });
+
+  it("should keep a dangling reference when the instance is saved", async () => {
+    const lost = departments[0].docRef;
+    await departments[0].delete();
+    const [user] = (
+      await User.findAll({
+        queryFn: (ref) => ref.where("name", "==", "Employee 0"),
+        populate: ["department"],
+      })
+    ).results;
+
+    user.name = "Employee 0 (renamed)";
+    await user.saveChanges();
+    await user.save();
+
+    const stored = (await user.docRef.get()).get("department");
+    expect(stored).toBeInstanceOf(DocumentReference);
+    expect(stored.path).toBe(lost.path);
+  });
+
+  it("should keep instance.populate() working on a single instance", async () => {
+    const { results } = await User.findAll({
+      queryFn: (ref) => ref.where("name", "==", "Employee 1"),
+    });
+    const [user] = results;
+    expect(user.department).not.toBeInstanceOf(Department);
+
+    await user.populate(["department", "manager"]);
+    expect((user.department as Department).name).toBe("Ops");
+    expect((user.manager as User).name).toBe("Boss");
+  });
+});
@@ -0,0 +1,122 @@
+import { getFirestoreInstance, ValidationError } from "../src";
+import { runInBatch } from "../src/core/transaction-manager";
+import { User, userHooks } from "./helpers/models";
+
+const makeUsers = (count: number) =>
+  Array.from(
+    { length: count },
+    (_, i) =>
+      new User({ name: `User ${i}`, email: `user${i}@test.com`, age: i % 100 })
+  );
+
+describe("BaseModel - Bulk operations", () => {
+  it("should insert many documents past the 500-write batch limit", async () => {
+    const users = makeUsers(520);
+    const report = await User.insertMany(users);
+
+    expect(report.successCount).toBe(520);
+    expect(report.failureCount).toBe(0);
+    expect(report.results.every((r) => r.success && r.id)).toBe(true);
+    expect(userHooks.beforeSave).toHaveBeenCalledTimes(520);
+    expect(userHooks.afterSave).toHaveBeenCalledTimes(520);
+    expect(users[0].id).toBeDefined();
+    expect(users[0].isDirty()).toBe(false);
+
+    expect(await User.count()).toBe(520);
+  });
+
+  it("should prepare and write the instances one page at a time", async () => {
+    const report = await User.insertMany(makeUsers(5), { pageSize: 2 });
+
+    expect(report.successCount).toBe(5);
+    const [, secondSaved] = userHooks.afterSave.mock.invocationCallOrder;
+    const [, , thirdPrepared] = userHooks.beforeSave.mock.invocationCallOrder;
+    expect(thirdPrepared).toBeGreaterThan(secondSaved);
+  });
+
+  it("should report invalid or conflicting documents without stopping the rest", async () => {
+    const existing = new User({ name: "Existing", email: "existing@test.com" });
+    await existing.save();
+
+    const invalid = new User({ name: "", email: "not-an-email" });
+    const duplicate = new User(
+      { name: "Dup", email: "dup@test.com" },
+      existing.id
+    );
+    const valid = new User({ name: "Valid", email: "valid@test.com" });
+
+    const report = await User.insertMany([invalid, duplicate, valid]);
+
+    expect(report.successCount).toBe(1);
+    expect(report.failureCount).toBe(2);
+    const [invalidResult, duplicateResult, validResult] = report.results;
+    expect(invalidResult.success).toBe(false);
+    expect(invalidResult.error).toBeInstanceOf(ValidationError);
+    expect(duplicateResult.success).toBe(false);
+    expect(duplicateResult.id).toBe(existing.id);
+    expect(validResult.success).toBe(true);
+
+    const stored = await User.findById(existing.id!);
+    expect(stored?.name).toBe("Existing");
+  });
+
+  it("should update every matching document and run the update hooks", async () => {
+    await User.insertMany(makeUsers(30));
+    userHooks.reset();
+
+    const report = await User.updateMany((ref) => ref.where("age", ">=", 10), {
+      tags: ["adult"],
+    });
+
+    expect(report.successCount).toBe(20);
+    expect(userHooks.beforeUpdate).toHaveBeenCalledTimes(20);
+    expect(userHooks.afterUpdate).toHaveBeenCalledTimes(20);
+    expect(report.results[0].instance.tags).toEqual(["adult"]);
+
+    const snapshot = await getFirestoreInstance()
+      .collection("users")
+      .where("tags", "array-contains", "adult")
+      .get();
+    expect(snapshot.size).toBe(20);
+    // beforeUpdate mutations are written too
+    expect(snapshot.docs[0].get("hookValue")).toBe("set_on_beforeUpdate");
+  });
+
+  it("should delete every matching document and run the delete hooks", async () => {
+    await User.insertMany(makeUsers(25));
+
+    const report = await User.deleteMany((ref) => ref.where("age", "<", 5));
+
+    expect(report.successCount).toBe(5);
+    expect(userHooks.beforeDelete).toHaveBeenCalledTimes(5);
+    expect(userHooks.afterDelete).toHaveBeenCalledTimes(5);
+    expect(report.results.every((r) => r.id && !r.instance.id)).toBe(true);
+    expect(await User.count()).toBe(20);
+  });
+
+  it("should read the matching documents in pages and honour limit()", async () => {
+    await User.insertMany(makeUsers(30));
+
+    const report = await User.updateMany(
+      (ref) => ref.where("age", ">=", 10),
+      { tags: ["paged"] },
+      { pageSize: 7 }
+    );
+    expect(report.successCount).toBe(20);
+    expect(new Set(report.results.map((r) => r.id)).size).toBe(20);
+
+    const limited = await User.deleteMany((ref) => ref.limit(12), {
+      pageSize: 5,
+    });
+    expect(limited.successCount).toBe(12);
+    expect(await User.count()).toBe(18);
+  });
+
+  it("should refuse to run inside a batch context", async () => {
+    await expect(
+      runInBatch(async () => {
+        await User.insertMany(makeUsers(1));
+      })
+    ).rejects.toThrow("cannot run inside runInTransaction or runInBatch");
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  BaseModel,
+  Collection,
+  getFirestoreInstance,
+  StringField,
+  SubCollection,
+  SubCollectionDoc,
+  SubCollectionModel,
+  WriteResult,
+} from "../src";
+import { runInBatch } from "../src/core/transaction-manager";
+
+const childHooks = {
+  beforeDelete: jest.fn(),
+  afterDelete: jest.fn(),
+};
+
+@SubCollectionModel(() => Book, "reviews")
+class Review extends BaseModel {
+  @StringField({ required: true })
+  text!: string;
+}
+
+@SubCollectionModel(() => Library, "books")
+class Book extends BaseModel {
+  @StringField({ required: true })
+  title!: string;
+
+  // Not flagged: removed anyway when its book is removed
+  @SubCollection(() => Review, "reviews")
+  reviews?: Review[];
+
+  async beforeDelete() {
+    childHooks.beforeDelete(`book:${this.id}`);
+  }
+
+  async afterDelete(result: WriteResult, originalId: string) {
+    childHooks.afterDelete(`book:${originalId}`);
+  }
+}
+
+@SubCollectionModel(() => Library, "settings")
+class LibrarySettings extends BaseModel {
+  @StringField()
+  theme?: string;
+
+  async beforeDelete() {
+    childHooks.beforeDelete(`settings:${this.id}`);
+  }
+
+  async afterDelete(result: WriteResult, originalId: string) {
+    childHooks.afterDelete(`settings:${originalId}`);
+  }
+}
+
+@Collection("libraries")
+class Library extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @SubCollection(() => Book, { name: "books", cascade: true })
+  books?: Book[];
+
+  @SubCollectionDoc(() => LibrarySettings, "main", {
+    subcollection: "settings",
+    cascade: true,
+    childHooks: true,
+  })
+  settings?: LibrarySettings;
+}
+
+@Collection("archives")
+class Archive extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @SubCollection(() => Book, "books")
+  books?: Book[];
+}
+
+async function seedLibrary() {
+  const library = new Library({ name: "Central" });
+  await library.save();
+
+  for (const title of ["Dune", "Emma"]) {
+    const book = new Book({ title }, library);
+    await book.save();
+    await new Review({ text: `${title} rocks` }, book).save();
+  }
+  const settings = new LibrarySettings({ theme: "dark" }, library);
+  settings.id = "main";
+  await settings.save();
+  return library;
+}
+
+describe("BaseModel - Cascade delete", () => {
+  const db = () => getFirestoreInstance();
+
+  it("should delete children flagged with cascade, recursively", async () => {
+    const library = await seedLibrary();
+    const libraryRef = library.docRef;
+
+    const result = await library.delete();
+
+    expect(result).toBeDefined();
+    expect((await libraryRef.get()).exists).toBe(false);
+    expect((await libraryRef.collection("books").get()).empty).toBe(true);
+    expect((await db().collectionGroup("reviews").get()).empty).toBe(true);
+    expect(
+      (await libraryRef.collection("settings").doc("main").get()).exists
+    ).toBe(false);
+  });
+
+  it("should report how many documents were removed", async () => {
+    const library = await seedLibrary();
+
+    const report = await library.delete({ cascade: true });
+
+    // 2 books + 2 reviews + settings + the library itself
+    expect(report.deletedCount).toBe(6);
+    expect(report.result).toBeDefined();
+    expect(library.id).toBeUndefined();
+  });
+
+  it("should run child hooks only where asked", async () => {
+    const library = await seedLibrary();
+    await library.delete();
+
+    expect(childHooks.beforeDelete.mock.calls).toEqual([["settings:main"]]);
+    expect(childHooks.afterDelete.mock.calls).toEqual([["settings:main"]]);
+  });
+
+  it("should run every child's hooks with childHooks: true", async () => {
+    const library = await seedLibrary();
+    await library.delete({ childHooks: true });
+
+    expect(childHooks.beforeDelete).toHaveBeenCalledTimes(3);
+    expect(childHooks.afterDelete).toHaveBeenCalledTimes(3);
+    expect((await db().collectionGroup("reviews").get()).empty).toBe(true);
+  });
+
+  it("should keep children with cascade: false or without flags", async () => {
+    const library = await seedLibrary();
+    const libraryRef = library.docRef;
+    const report = await library.delete({ cascade: false });
+    expect(report.deletedCount).toBe(1);
+    expect((await libraryRef.collection("books").get()).size).toBe(2);
+
+    const archive = new Archive({ name: "Old" });
+    await archive.save();
+    await new Book({ title: "Kept" }, archive).save();
+    const archiveRef = archive.docRef;
+    await archive.delete();
+    expect((await archiveRef.collection("books").get()).size).toBe(1);
+  });
+
+  it("should delete the parent before its children", async () => {
+    const library = await seedLibrary();
+    const libraryRef = library.docRef;
+    const parentExists: boolean[] = [];
+    childHooks.beforeDelete.mockImplementation(async () => {
+      parentExists.push((await libraryRef.get()).exists);
+    });
+
+    await library.delete({ childHooks: true });
+    childHooks.beforeDelete.mockReset();
+
+    expect(parentExists).toEqual([false, false, false]);
+  });
+
+  it("should cascade from deleteMany with a single writer", async () => {
+    await seedLibrary();
+    await seedLibrary();
+
+    const report = await Library.deleteMany(undefined);
+
+    expect(report.successCount).toBe(2);
+    expect((await db().collectionGroup("books").get()).empty).toBe(true);
+    expect((await db().collectionGroup("reviews").get()).empty).toBe(true);
+    expect(childHooks.afterDelete.mock.calls).toEqual([
+      ["settings:main"],
+      ["settings:main"],
+    ]);
+  });
+
+  it("should refuse to cascade inside a batch", async () => {
+    const library = await seedLibrary();
+    await expect(
+      runInBatch(async () => {
+        await library.delete();
+      })
+    ).rejects.toThrow("Cascade deletes cannot run inside");
+  });
+});
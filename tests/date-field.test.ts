@@ -0,0 +1,158 @@
+import {
+  BaseModel,
+  Collection,
+  DateField,
+  Embedded,
+  getFirestoreInstance,
+  runInBatch,
+  StringField,
+  Timestamp,
+} from "../src";
+
+@Collection("meetups")
+class Meetup extends BaseModel {
+  @StringField({ required: true })
+  title!: string;
+
+  @DateField({ required: true, autoFill: true })
+  createdAt!: Date;
+
+  @DateField({ onUpdate: true, serverTimestamp: true })
+  updatedAt?: Date;
+
+  @DateField()
+  startsAt?: Date;
+}
+
+class Slot {
+  @DateField()
+  startsAt?: Date;
+}
+
+class StampedSlot {
+  @DateField({ autoFill: true })
+  startsAt?: Date;
+}
+
+@Collection("agendas")
+class Agenda extends BaseModel {
+  @Embedded(() => Slot)
+  slot?: Slot;
+}
+
+@Collection("bad-agendas")
+class StampedAgenda extends BaseModel {
+  @Embedded(() => StampedSlot)
+  slot?: StampedSlot;
+}
+
+const stored = async (meetup: Meetup) => (await meetup.docRef.get()).data()!;
+
+describe("@DateField", () => {
+  it("should store Timestamps and expose Dates", async () => {
+    const startsAt = new Date("2030-01-01T10:00:00Z");
+    const meetup = new Meetup({ title: "Launch", startsAt });
+    await meetup.save();
+
+    const data = await stored(meetup);
+    expect(data.startsAt).toBeInstanceOf(Timestamp);
+    expect(data.startsAt.toMillis()).toBe(startsAt.getTime());
+
+    const loaded = (await Meetup.findById(meetup.id!))!;
+    expect(loaded.startsAt).toBeInstanceOf(Date);
+    expect(loaded.startsAt!.getTime()).toBe(startsAt.getTime());
+    expect(loaded.createdAt).toBeInstanceOf(Date);
+    expect(loaded.isDirty()).toBe(false);
+  });
+
+  it("should autofill on create only", async () => {
+    const meetup = new Meetup({ title: "A" });
+    await meetup.save();
+    const createdAt = meetup.createdAt;
+    expect(createdAt).toBeInstanceOf(Date);
+
+    meetup.title = "B";
+    await meetup.save();
+
+    expect(meetup.createdAt).toBe(createdAt);
+  });
+
+  it("should resolve server timestamps after save and update", async () => {
+    const meetup = new Meetup({ title: "A" });
+    await meetup.save();
+
+    const first = meetup.updatedAt;
+    expect(first).toBeInstanceOf(Date);
+    expect((await stored(meetup)).updatedAt.toMillis()).toBe(first!.getTime());
+    expect(meetup.isDirty()).toBe(false);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await meetup.update({ title: "B" });
+
+    expect(meetup.updatedAt!.getTime()).toBeGreaterThan(first!.getTime());
+    expect((await stored(meetup)).updatedAt.toMillis()).toBe(
+      meetup.updatedAt!.getTime()
+    );
+  });
+
+  it("should stamp changes written with saveChanges", async () => {
+    await getFirestoreInstance()
+      .collection("meetups")
+      .doc("legacy")
+      .set({ title: "Old", createdAt: Timestamp.fromMillis(0) });
+    const meetup = (await Meetup.findById("legacy"))!;
+
+    meetup.startsAt = new Date(1000);
+    await meetup.saveChanges();
+
+    const data = await stored(meetup);
+    expect(data.startsAt.toMillis()).toBe(1000);
+    expect(data.updatedAt).toBeInstanceOf(Timestamp);
+    expect(meetup.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it("should leave server timestamps unresolved in a batch", async () => {
+    const meetup = new Meetup({ title: "Batched" });
+
+    await runInBatch(async () => {
+      await meetup.save();
+    });
+
+    expect(meetup.updatedAt).toBeUndefined();
+    expect((await stored(meetup)).updatedAt).toBeInstanceOf(Timestamp);
+  });
+
+  it("should compare stored timestamps at millisecond precision", async () => {
+    const precise = new Timestamp(1900000000, 123456789);
+    await getFirestoreInstance()
+      .collection("meetups")
+      .doc("precise")
+      .set({ title: "Precise", createdAt: precise, updatedAt: precise });
+
+    const meetup = (await Meetup.findById("precise"))!;
+    expect(meetup.isDirty()).toBe(false);
+
+    await meetup.update({ title: "Still precise" });
+    expect(meetup.isDirty()).toBe(false);
+  });
+
+  it("should expose Dates in embedded classes", async () => {
+    const startsAt = new Date("2030-05-01T08:00:00Z");
+    const agenda = new Agenda({ slot: { startsAt } });
+    await agenda.save();
+
+    const data = (await agenda.docRef.get()).data()!;
+    expect(data.slot.startsAt).toBeInstanceOf(Timestamp);
+
+    const loaded = (await Agenda.findById(agenda.id!))!;
+    expect(loaded.slot!.startsAt).toBeInstanceOf(Date);
+    expect(loaded.slot!.startsAt!.getTime()).toBe(startsAt.getTime());
+    expect(loaded.isDirty()).toBe(false);
+  });
+
+  it("should reject automatic dates in embedded classes", () => {
+    expect(() => new StampedAgenda({ slot: {} })).toThrow(
+      "cannot use autoFill, onUpdate or serverTimestamp"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import {
+  ArrayField,
+  BaseModel,
+  BooleanField,
+  Collection,
+  EnumField,
+  getFirestoreInstance,
+  MapField,
+  NumberField,
+  StringField,
+} from "../src";
+
+enum Visibility {
+  PUBLIC = "public",
+  PRIVATE = "private",
+}
+
+let sequence = 0;
+
+@Collection("posts")
+class Post extends BaseModel {
+  @StringField({ required: true, default: "Untitled" })
+  title!: string;
+
+  @NumberField({ default: () => ++sequence })
+  position?: number;
+
+  @BooleanField({ default: false })
+  pinned?: boolean;
+
+  @EnumField(Visibility, { default: Visibility.PRIVATE })
+  visibility?: Visibility;
+
+  @ArrayField(z.string(), { default: [] })
+  tags?: string[];
+
+  @MapField(z.number(), { default: { views: 0 } })
+  counters?: Record<string, number>;
+
+  @StringField({ required: false })
+  subtitle?: string;
+
+  async beforeSave() {
+    this.subtitle = `${this.title} (#${this.position})`;
+  }
+}
+
+describe("Field defaults", () => {
+  beforeEach(() => {
+    sequence = 0;
+  });
+
+  it("should apply static and factory defaults on construction", () => {
+    const post = new Post({});
+
+    expect(post.title).toBe("Untitled");
+    expect(post.position).toBe(1);
+    expect(post.pinned).toBe(false);
+    expect(post.visibility).toBe(Visibility.PRIVATE);
+    expect(post.tags).toEqual([]);
+    expect(post.counters).toEqual({ views: 0 });
+  });
+
+  it("should not override provided values", () => {
+    const post = new Post({
+      title: "Hello",
+      position: 7,
+      pinned: true,
+      tags: ["a"],
+    });
+
+    expect(post.title).toBe("Hello");
+    expect(post.position).toBe(7);
+    expect(post.pinned).toBe(true);
+    expect(post.tags).toEqual(["a"]);
+    expect(sequence).toBe(0);
+  });
+
+  it("should give every instance its own copy and factory call", () => {
+    const first = new Post({});
+    const second = new Post({});
+    first.tags!.push("mutated");
+    first.counters!.views = 10;
+
+    expect(second.tags).toEqual([]);
+    expect(second.counters).toEqual({ views: 0 });
+    expect([first.position, second.position]).toEqual([1, 2]);
+  });
+
+  it("should apply defaults again before beforeSave and validation", async () => {
+    const post = new Post({});
+    (post as any).title = undefined;
+    (post as any).position = undefined;
+
+    await post.save();
+
+    const stored = (await post.docRef.get()).data();
+    expect(stored).toMatchObject({
+      title: "Untitled",
+      position: 2,
+      pinned: false,
+      visibility: Visibility.PRIVATE,
+      tags: [],
+      counters: { views: 0 },
+      subtitle: "Untitled (#2)",
+    });
+  });
+
+  it("should fill missing fields of loaded documents as unsaved changes", async () => {
+    await getFirestoreInstance()
+      .collection("posts")
+      .doc("legacy")
+      .set({ title: "Legacy", position: 3 });
+
+    const post = (await Post.findById("legacy"))!;
+
+    expect(post.pinned).toBe(false);
+    expect(post.position).toBe(3);
+    expect(post.isDirty("pinned")).toBe(true);
+    expect(post.isDirty("position")).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  BaseModel,
+  Collection,
+  FieldValue,
+  getFirestoreInstance,
+  MapField,
+  NumberField,
+  StringField,
+  UpdateData,
+  z,
+} from "../src";
+
+const profileHooks = { beforeUpdate: jest.fn() };
+
+@Collection("profiles")
+class Profile extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @NumberField()
+  score?: number;
+
+  @MapField(z.any())
+  address?: Record<string, any>;
+
+  async beforeUpdate(data: UpdateData<this>) {
+    profileHooks.beforeUpdate({ ...data });
+  }
+}
+
+describe("BaseModel - Dirty tracking", () => {
+  let profile: Profile;
+
+  beforeEach(async () => {
+    const created = new Profile({
+      name: "Ana",
+      score: 1,
+      address: { city: "Lisbon", zip: "1000" },
+    });
+    await created.save();
+    profile = (await Profile.findById(created.id!))!;
+  });
+
+  it("should report a freshly loaded instance as clean", () => {
+    expect(profile.isDirty()).toBe(false);
+    expect(profile.getChanges()).toEqual({});
+  });
+
+  it("should report changed fields with old and new values", () => {
+    profile.name = "Ana Maria";
+    profile.address!.city = "Porto";
+    delete profile.address!.zip;
+
+    expect(profile.isDirty()).toBe(true);
+    expect(profile.isDirty("name")).toBe(true);
+    expect(profile.isDirty("address")).toBe(true);
+    expect(profile.isDirty("address.city")).toBe(true);
+    expect(profile.isDirty("score")).toBe(false);
+    expect(profile.getChanges()).toEqual({
+      name: { old: "Ana", new: "Ana Maria" },
+      "address.city": { old: "Lisbon", new: "Porto" },
+      "address.zip": { old: "1000", new: undefined },
+    });
+  });
+
+  it("should write map keys holding a dot to that key", async () => {
+    profile.address = { ...profile.address, "ana@test.com": "home" };
+    await profile.saveChanges();
+    profile.address!["ana@test.com"] = "work";
+
+    expect(profile.getChanges()).toEqual({
+      "address.`ana@test.com`": { old: "home", new: "work" },
+    });
+    await profile.saveChanges();
+
+    const stored = (await profile.docRef.get()).data()!;
+    expect(stored.address).toEqual({
+      city: "Lisbon",
+      zip: "1000",
+      "ana@test.com": "work",
+    });
+    expect(profile.isDirty()).toBe(false);
+  });
+
+  it("should update only the modified fields with saveChanges()", async () => {
+    const db = getFirestoreInstance();
+    // Concurrent edit to a field this instance does not touch
+    await db.collection("profiles").doc(profile.id!).update({ score: 42 });
+
+    profile.address!.city = "Porto";
+    delete profile.address!.zip;
+    await profile.saveChanges();
+
+    expect(profileHooks.beforeUpdate).toHaveBeenCalledTimes(1);
+    const diff = profileHooks.beforeUpdate.mock.calls[0][0];
+    expect(Object.keys(diff).sort()).toEqual(["address.city", "address.zip"]);
+
+    const snap = await db.collection("profiles").doc(profile.id!).get();
+    expect(snap.data()).toEqual({
+      name: "Ana",
+      score: 42,
+      address: { city: "Porto" },
+    });
+    expect(profile.isDirty()).toBe(false);
+    expect((profile as any)["address.city"]).toBeUndefined();
+  });
+
+  it("should skip the write when nothing changed", async () => {
+    const result = await profile.saveChanges();
+    expect(result).toBeUndefined();
+    expect(profileHooks.beforeUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should fall back to save() for new instances", async () => {
+    const fresh = new Profile({ name: "New" });
+    expect(fresh.isDirty()).toBe(true);
+
+    await fresh.saveChanges();
+    expect(fresh.id).toBeDefined();
+    expect(fresh.isDirty()).toBe(false);
+  });
+
+  it("should keep unsaved changes of other fields dirty after update()", async () => {
+    profile.name = "Unsaved";
+
+    await profile.update({ "address.city": "Porto" } as any);
+
+    expect(profile.getChanges()).toEqual({
+      name: { old: "Ana", new: "Unsaved" },
+    });
+    expect(profile.isDirty("address")).toBe(false);
+  });
+
+  it("should not rewrite a field updated with a FieldValue", async () => {
+    await profile.update({ score: FieldValue.increment(2) } as any);
+
+    // The instance keeps its local value, but no change is pending
+    expect(profile.score).toBe(1);
+    expect(profile.getChanges()).toEqual({});
+    expect(profile.isDirty("score")).toBe(false);
+
+    await profile.saveChanges();
+    expect((await profile.docRef.get()).get("score")).toBe(3);
+
+    profile.score = 10;
+    expect(profile.getChanges()).toEqual({ score: { old: 3, new: 10 } });
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  BaseModel,
+  Collection,
+  Embedded,
+  EmbeddedArray,
+  getFirestoreInstance,
+  NumberField,
+  StringField,
+  ValidationError,
+} from "../src";
+
+class Geo {
+  @NumberField({ required: true })
+  lat!: number;
+
+  @NumberField({ required: true })
+  lng!: number;
+}
+
+class Address {
+  @StringField({ required: true })
+  street!: string;
+
+  @StringField({ default: "Lisbon" })
+  city?: string;
+
+  @Embedded(() => Geo)
+  geo?: Geo;
+
+  get label(): string {
+    return `${this.street}, ${this.city}`;
+  }
+}
+
+class LineItem {
+  @StringField({ required: true })
+  sku!: string;
+
+  @NumberField({ min: 1, default: 1 })
+  quantity?: number;
+}
+
+@Collection("orders")
+class Order extends BaseModel {
+  @Embedded(() => Address, { required: true })
+  address!: Address;
+
+  @EmbeddedArray(() => LineItem, { default: [] })
+  items!: LineItem[];
+}
+
+class Contact {
+  @StringField({ required: true, name: "phone_number" })
+  phoneNumber!: string;
+}
+
+@Collection("customers")
+class Customer extends BaseModel {
+  @Embedded(() => Contact, { name: "main_contact" })
+  contact?: Contact;
+
+  @EmbeddedArray(() => Contact, { default: [] })
+  others!: Contact[];
+}
+
+const stored = async (order: Order) => (await order.docRef.get()).data();
+
+describe("@Embedded and @EmbeddedArray", () => {
+  it("should hydrate plain objects into instances with defaults", () => {
+    const order = new Order({
+      address: { street: "Rua A", geo: { lat: 1, lng: 2 } },
+      items: [{ sku: "A-1" }],
+    });
+
+    expect(order.address).toBeInstanceOf(Address);
+    expect(order.address.geo).toBeInstanceOf(Geo);
+    expect(order.address.label).toBe("Rua A, Lisbon");
+    expect(order.items[0]).toBeInstanceOf(LineItem);
+    expect(order.items[0].quantity).toBe(1);
+  });
+
+  it("should store maps and load instances", async () => {
+    const address = new Address();
+    address.street = "Rua B";
+    const order = new Order({ address, items: [{ sku: "A-1", quantity: 2 }] });
+    await order.save();
+
+    expect(await stored(order)).toEqual({
+      address: { street: "Rua B", city: "Lisbon" },
+      items: [{ sku: "A-1", quantity: 2 }],
+    });
+
+    const loaded = (await Order.findById(order.id!))!;
+    expect(loaded.address).toBeInstanceOf(Address);
+    expect(loaded.items[0]).toBeInstanceOf(LineItem);
+    expect(loaded.isDirty()).toBe(false);
+    expect(loaded.toJSON()).toMatchObject({
+      address: { street: "Rua B", city: "Lisbon" },
+    });
+  });
+
+  it("should validate embedded fields with nested paths", async () => {
+    const order = new Order({
+      address: { street: 3, zip: "1000" } as any,
+      items: [{ sku: "A-1", quantity: 0 }],
+    });
+
+    const error = await order.save().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues.map((i: any) => i.path.join("."))).toEqual([
+      "address.street",
+      "address",
+      "items.0.quantity",
+    ]);
+  });
+
+  it("should update embedded fields through dotted paths", async () => {
+    const order = new Order({ address: { street: "Rua C" } });
+    await order.save();
+
+    await order.update({
+      "address.city": "Porto",
+      "address.geo": { lat: 5, lng: 6 },
+    } as any);
+
+    expect((await stored(order))!.address).toEqual({
+      street: "Rua C",
+      city: "Porto",
+      geo: { lat: 5, lng: 6 },
+    });
+    expect(order.address.geo).toBeInstanceOf(Geo);
+    expect(order.address.label).toBe("Rua C, Porto");
+
+    await expect(
+      order.update({ "address.geo.lat": "north" } as any)
+    ).rejects.toThrow("(address.geo.lat) Expected number, received string");
+  });
+
+  it("should write changed embedded fields with saveChanges", async () => {
+    await getFirestoreInstance()
+      .collection("orders")
+      .doc("legacy")
+      .set({ address: { street: "Rua D", city: "Faro" }, items: [] });
+    const order = (await Order.findById("legacy"))!;
+
+    order.address.city = "Braga";
+    order.items.push(Object.assign(new LineItem(), { sku: "B-2" }));
+    await order.saveChanges();
+
+    expect(await stored(order)).toEqual({
+      address: { street: "Rua D", city: "Braga" },
+      items: [{ sku: "B-2", quantity: 1 }],
+    });
+  });
+
+  it("should map the field names of embedded classes", async () => {
+    const customer = new Customer({
+      contact: { phoneNumber: "111" },
+      others: [{ phoneNumber: "222" }],
+    });
+    await customer.save();
+
+    expect((await customer.docRef.get()).data()).toEqual({
+      main_contact: { phone_number: "111" },
+      others: [{ phone_number: "222" }],
+    });
+
+    await customer.update({ "contact.phoneNumber": "333" } as any);
+    const loaded = (await Customer.findById(customer.id!))!;
+    expect(loaded.contact).toBeInstanceOf(Contact);
+    expect(loaded.contact!.phoneNumber).toBe("333");
+    expect(loaded.others[0].phoneNumber).toBe("222");
+    expect(loaded.isDirty()).toBe(false);
+
+    const found = await Customer.findWhere("contact.phoneNumber", "==", "333");
+    expect(found).toHaveLength(1);
+  });
+});
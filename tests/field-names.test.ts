@@ -0,0 +1,161 @@
+import {
+  BaseModel,
+  Collection,
+  DocumentReference,
+  DocumentReferenceField,
+  Field,
+  getFirestoreInstance,
+  HasMany,
+  MapField,
+  NumberField,
+  Relation,
+  SoftDelete,
+  StringField,
+  Timestamp,
+  VersionField,
+  z,
+} from "../src";
+
+@Collection("teams", { naming: "snake_case" })
+class Team extends BaseModel {
+  @StringField({ required: true })
+  displayName!: string;
+
+  @HasMany(() => Player, "currentTeam", { orderBy: { field: "jerseyNumber" } })
+  players?: Player[];
+}
+
+@SoftDelete({ field: "deletedAt" })
+@Collection("players", { naming: "snake_case" })
+class Player extends BaseModel {
+  @StringField({ required: true, name: "full_name_v2" })
+  fullName!: string;
+
+  @NumberField({ required: false })
+  jerseyNumber?: number;
+
+  @MapField(z.number(), { required: false })
+  seasonStats?: Record<string, number>;
+
+  @DocumentReferenceField({ required: false })
+  @Relation(() => Team, { name: "team_ref" })
+  currentTeam?: DocumentReference | Team | null;
+
+  @Field({ name: "rev" })
+  @VersionField()
+  version?: number;
+}
+
+const raw = (id: string) =>
+  getFirestoreInstance().collection("players").doc(id);
+
+describe("Field name mapping", () => {
+  let team: Team;
+
+  beforeEach(async () => {
+    team = new Team({ displayName: "Owls" });
+    await team.save();
+  });
+
+  it("should write and read mapped field names", async () => {
+    const player = new Player({
+      fullName: "Ada Lovelace",
+      jerseyNumber: 10,
+      seasonStats: { goals: 3 },
+      currentTeam: team.docRef,
+    });
+    await player.save();
+
+    const stored = (await raw(player.id!).get()).data();
+    expect(stored).toEqual({
+      full_name_v2: "Ada Lovelace",
+      jersey_number: 10,
+      season_stats: { goals: 3 },
+      team_ref: expect.any(DocumentReference),
+      deleted_at: null,
+      rev: 1,
+    });
+    expect((await team.docRef.get()).get("display_name")).toBe("Owls");
+
+    const loaded = (await Player.findById(player.id!))!;
+    expect(loaded.fullName).toBe("Ada Lovelace");
+    expect(loaded.jerseyNumber).toBe(10);
+    expect((loaded.currentTeam as DocumentReference).id).toBe(team.id);
+    expect(loaded.version).toBe(1);
+    expect(loaded.isDirty()).toBe(false);
+    expect(loaded.toJSON()).toMatchObject({
+      fullName: "Ada Lovelace",
+      seasonStats: { goals: 3 },
+    });
+  });
+
+  it("should map update payloads, including dotted paths", async () => {
+    const player = new Player({ fullName: "Ada", seasonStats: { goals: 1 } });
+    await player.save();
+
+    await player.update({ jerseyNumber: 7, "seasonStats.goals": 2 } as any);
+
+    const stored = (await raw(player.id!).get()).data()!;
+    expect(stored.jersey_number).toBe(7);
+    expect(stored.season_stats).toEqual({ goals: 2 });
+    expect(stored.rev).toBe(2);
+
+    player.fullName = "Ada L.";
+    await player.saveChanges();
+    expect((await raw(player.id!).get()).get("full_name_v2")).toBe("Ada L.");
+  });
+
+  it("should map field names in queries", async () => {
+    for (const [fullName, jerseyNumber] of [
+      ["B", 9],
+      ["A", 4],
+      ["C", 12],
+    ] as const) {
+      await new Player({ fullName, jerseyNumber, currentTeam: team }).save();
+    }
+
+    const found = await Player.findWhere("jerseyNumber", ">", 5);
+    expect(found.map((p) => p.fullName).sort()).toEqual(["B", "C"]);
+
+    const { results } = await Player.findAll({
+      orderBy: { field: "jerseyNumber", direction: "desc" },
+    });
+    expect(results.map((p) => p.fullName)).toEqual(["C", "B", "A"]);
+
+    const queried = await Player.query()
+      .where("jerseyNumber", "<", 10)
+      .orderBy("jerseyNumber")
+      .get();
+    expect(queried.map((p) => p.fullName)).toEqual(["A", "B"]);
+
+    expect(await Player.sum("jerseyNumber")).toBe(25);
+
+    const players = await team.hasMany<Player>("players");
+    expect(players.map((p) => p.jerseyNumber)).toEqual([4, 9, 12]);
+  });
+
+  it("should map the soft delete field", async () => {
+    const player = new Player({ fullName: "Gone" });
+    await player.save();
+    await player.delete();
+
+    expect((await raw(player.id!).get()).get("deleted_at")).toBeInstanceOf(
+      Timestamp
+    );
+    expect(await Player.findById(player.id!)).toBeNull();
+    const { results } = await Player.findAll({ onlyDeleted: true });
+    expect(results.map((p) => p.id)).toEqual([player.id]);
+  });
+
+  it("should read legacy snake_case documents", async () => {
+    await raw("legacy").set({
+      full_name_v2: "Legacy",
+      jersey_number: 1,
+      deleted_at: null,
+    });
+
+    const player = (await Player.findById("legacy"))!;
+    expect(player.fullName).toBe("Legacy");
+    expect(player.jerseyNumber).toBe(1);
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  BaseModel,
+  Collection,
+  DocumentReference,
+  DocumentReferenceField,
+  HasMany,
+  NumberField,
+  Relation,
+  SoftDelete,
+  StringField,
+  Timestamp,
+} from "../src";
+
+@Collection("guilds")
+class Guild extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @HasMany(() => Member, "guild", { orderBy: { field: "name" } })
+  members?: Member[];
+
+  @HasMany(() => Member, "guild", {
+    orderBy: { field: "level", direction: "desc" },
+    limit: 2,
+  })
+  topMembers?: Member[];
+}
+
+@SoftDelete({ field: "deletedAt" })
+@Collection("members")
+class Member extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @NumberField({ required: false })
+  level?: number;
+
+  @DocumentReferenceField({ required: false })
+  @Relation(() => Guild)
+  guild?: DocumentReference | Guild | null;
+
+  deletedAt?: Timestamp | null;
+}
+
+describe("BaseModel - @HasMany", () => {
+  let knights: Guild;
+  let mages: Guild;
+
+  beforeEach(async () => {
+    knights = new Guild({ name: "Knights" });
+    await knights.save();
+    mages = new Guild({ name: "Mages" });
+    await mages.save();
+
+    const seed: [string, number, Guild][] = [
+      ["Carl", 3, knights],
+      ["Anna", 7, knights],
+      ["Bert", 5, knights],
+      ["Zed", 9, mages],
+    ];
+    for (const [name, level, guild] of seed) {
+      await new Member({ name, level, guild: guild.docRef }).save();
+    }
+  });
+
+  it("should load the documents referencing this one, in the declared order", async () => {
+    const members = await knights.hasMany<Member>("members");
+
+    expect(members.map((m) => m.name)).toEqual(["Anna", "Bert", "Carl"]);
+    expect(members[0]).toBeInstanceOf(Member);
+  });
+
+  it("should apply the declared limit and accept a query refinement", async () => {
+    const top = await knights.hasMany<Member>("topMembers");
+    expect(top.map((m) => m.name)).toEqual(["Anna", "Bert"]);
+
+    const low = await knights.hasMany<Member>("members", (q) =>
+      q.where("level", "<", 6)
+    );
+    expect(low.map((m) => m.name)).toEqual(["Bert", "Carl"]);
+  });
+
+  it("should count without loading and skip soft-deleted documents", async () => {
+    expect(await knights.countHasMany("members")).toBe(3);
+
+    const [anna] = await knights.hasMany<Member>("members");
+    await anna.delete();
+
+    expect(await knights.countHasMany("members")).toBe(2);
+    expect(await mages.countHasMany("members")).toBe(1);
+  });
+
+  it("should be populatable through FindOptions and populate()", async () => {
+    const { results } = await Guild.findAll({
+      populate: ["members", "topMembers"],
+      orderBy: { field: "name" },
+    });
+
+    const [k, m] = results;
+    expect(k.members!.map((x) => x.name)).toEqual(["Anna", "Bert", "Carl"]);
+    expect(k.topMembers!.map((x) => x.name)).toEqual(["Anna", "Bert"]);
+    expect(m.members!.map((x) => x.name)).toEqual(["Zed"]);
+    // Documents reached twice share one instance
+    expect(k.topMembers![0]).toBe(k.members![0]);
+
+    const guild = (await Guild.findById(mages.id!))!;
+    expect(guild.members).toBeUndefined();
+    await guild.populate("members");
+    expect(guild.members!.map((x) => x.name)).toEqual(["Zed"]);
+  });
+
+  it("should support nested paths through the relation", async () => {
+    const found = await Guild.findById(knights.id!, {
+      populate: ["members.guild"],
+    });
+
+    const [first] = found!.members!;
+    expect(first.guild).toBe(found);
+  });
+
+  it("should not write populated lists back", async () => {
+    const guild = (await Guild.findById(knights.id!, {
+      populate: ["members"],
+    }))!;
+    await guild.update({ name: "Royal Knights" });
+    await guild.save();
+
+    const snapshot = await guild.docRef.get();
+    expect(snapshot.get("name")).toBe("Royal Knights");
+    expect(snapshot.get("members")).toBeUndefined();
+  });
+
+  it("should throw for properties without @HasMany", async () => {
+    await expect(knights.hasMany("name")).rejects.toThrow(
+      '@HasMany not defined for property "name" on Guild'
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  BaseModel,
+  Collection,
+  defineMigration,
+  getFirestoreInstance,
+  MigrationError,
+  NumberField,
+  runMigrations,
+  StringField,
+  SubCollectionModel,
+} from "../src";
+
+@Collection("customers")
+class Customer extends BaseModel {
+  @StringField({ required: true })
+  displayName!: string;
+
+  @NumberField({ required: false })
+  credits?: number;
+}
+
+// v1: `name` renamed to `displayName`
+defineMigration(Customer, 1, (doc) => {
+  doc.displayName = doc.displayName ?? doc.name;
+  delete doc.name;
+});
+// v2: credits default to 0; fails on purpose for broken documents
+defineMigration(Customer, 2, (doc) => {
+  if (doc.broken) throw new Error("cannot migrate");
+  return { ...doc, credits: doc.credits ?? 0 };
+});
+
+@SubCollectionModel(() => Customer, "invoices")
+class Invoice extends BaseModel {
+  @NumberField({ required: true })
+  totalCents!: number;
+}
+
+// v1: the legacy `total.cents` key (holding a dot) renamed to `totalCents`
+defineMigration(Invoice, 1, (doc) => {
+  doc.totalCents = doc["total.cents"];
+  delete doc["total.cents"];
+});
+
+const raw = () => getFirestoreInstance().collection("customers");
+
+async function seedLegacy(count: number) {
+  for (let i = 0; i < count; i++) {
+    await raw()
+      .doc(`legacy-${String(i).padStart(2, "0")}`)
+      .set({ name: `Customer ${i}` });
+  }
+}
+
+describe("Schema migrations", () => {
+  it("should migrate documents lazily on load", async () => {
+    await seedLegacy(1);
+
+    const customer = (await Customer.findById("legacy-00"))!;
+
+    expect(customer.displayName).toBe("Customer 0");
+    expect(customer.credits).toBe(0);
+    expect((customer as any).name).toBeUndefined();
+    // Not written yet
+    expect((await raw().doc("legacy-00").get()).get("name")).toBe("Customer 0");
+    expect(customer.isDirty()).toBe(true);
+
+    await customer.saveChanges();
+    const stored = (await raw().doc("legacy-00").get()).data();
+    expect(stored).toEqual({
+      displayName: "Customer 0",
+      credits: 0,
+      _schemaVersion: 2,
+    });
+  });
+
+  it("should stamp the latest version on save", async () => {
+    const customer = new Customer({ displayName: "New" });
+    await customer.save();
+
+    const stored = await customer.docRef.get();
+    expect(stored.get("_schemaVersion")).toBe(2);
+    expect(customer.isDirty()).toBe(false);
+  });
+
+  it("should not run migrations again on up-to-date documents", async () => {
+    await raw()
+      .doc("current")
+      .set({ displayName: "Kept", _schemaVersion: 2 });
+
+    const customer = (await Customer.findById("current"))!;
+    expect(customer.credits).toBeUndefined();
+    expect(customer.isDirty()).toBe(false);
+  });
+
+  it("should migrate a collection eagerly and report it", async () => {
+    await seedLegacy(5);
+    await raw().doc("current").set({ displayName: "Kept", _schemaVersion: 2 });
+    const progress = jest.fn();
+
+    const report = await runMigrations(Customer, {
+      pageSize: 2,
+      onProgress: progress,
+    });
+
+    expect(report).toMatchObject({
+      targetVersion: 2,
+      scanned: 6,
+      migrated: 5,
+      skipped: 1,
+      failures: [],
+    });
+    expect(progress).toHaveBeenCalledTimes(3);
+    const stored = (await raw().doc("legacy-03").get()).data();
+    expect(stored).toEqual({
+      displayName: "Customer 3",
+      credits: 0,
+      _schemaVersion: 2,
+    });
+
+    // Idempotent
+    const again = await runMigrations(Customer);
+    expect(again.migrated).toBe(0);
+    expect(again.skipped).toBe(6);
+  });
+
+  it("should resume after a given document and support dry runs", async () => {
+    await seedLegacy(4);
+
+    const dry = await runMigrations(Customer, { dryRun: true });
+    expect(dry.migrated).toBe(4);
+    expect((await raw().doc("legacy-00").get()).get("name")).toBe("Customer 0");
+
+    const report = await runMigrations(Customer, { startAfter: "legacy-01" });
+    expect(report.scanned).toBe(2);
+    expect(report.lastId).toBe("legacy-03");
+    expect((await raw().doc("legacy-01").get()).get("name")).toBe("Customer 1");
+    expect((await raw().doc("legacy-02").get()).get("name")).toBeUndefined();
+  });
+
+  it("should report failing documents and keep going", async () => {
+    await seedLegacy(2);
+    await raw().doc("legacy-00").update({ broken: true });
+
+    const report = await runMigrations(Customer);
+
+    expect(report.migrated).toBe(1);
+    expect(report.failures).toHaveLength(1);
+    expect(report.failures[0].id).toBe("legacy-00");
+    expect(report.failures[0].error).toBeInstanceOf(MigrationError);
+    await expect(Customer.findById("legacy-00")).rejects.toThrow(
+      MigrationError
+    );
+  });
+
+  it("should migrate a sub-collection model across parents", async () => {
+    for (const parent of ["alice", "bob"]) {
+      await raw()
+        .doc(parent)
+        .collection("invoices")
+        .doc("first")
+        .set({ "total.cents": 1250 });
+    }
+
+    const report = await runMigrations(Invoice, { pageSize: 1 });
+
+    expect(report).toMatchObject({ scanned: 2, migrated: 2, failures: [] });
+    expect(report.lastId).toBe("customers/bob/invoices/first");
+    const stored = await raw()
+      .doc("bob")
+      .collection("invoices")
+      .doc("first")
+      .get();
+    expect(stored.data()).toEqual({ totalCents: 1250, _schemaVersion: 1 });
+
+    const resumed = await runMigrations(Invoice, {
+      startAfter: "customers/alice/invoices/first",
+    });
+    expect(resumed).toMatchObject({ scanned: 1, skipped: 1 });
+  });
+
+  it("should reject duplicate or invalid versions", () => {
+    expect(() => defineMigration(Customer, 2, () => {})).toThrow(
+      "Migration 2 is already defined for Customer."
+    );
+    expect(() => defineMigration(Customer, 0, () => {})).toThrow(
+      "Expected a positive integer"
+    );
+  });
+});
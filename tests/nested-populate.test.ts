@@ -0,0 +1,128 @@
+import {
+  BaseModel,
+  Collection,
+  DocumentReference,
+  DocumentReferenceField,
+  Relation,
+  StringField,
+} from "../src";
+
+@Collection("teams")
+class Team extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @DocumentReferenceField({ required: false })
+  @Relation(() => Person)
+  head?: DocumentReference | Person | null;
+}
+
+@Collection("people")
+class Person extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @DocumentReferenceField({ required: false })
+  @Relation(() => Team)
+  team?: DocumentReference | Team | null;
+
+  @DocumentReferenceField({ required: false })
+  @Relation(() => Person)
+  manager?: DocumentReference | Person | null;
+}
+
+@Collection("partners")
+class Partner extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  // Eager self-reference: partners point at each other
+  @DocumentReferenceField({ required: false })
+  @Relation(() => Partner, { lazy: false })
+  partner?: DocumentReference | Partner | null;
+}
+
+describe("BaseModel - Nested populate paths", () => {
+  let ceo: Person;
+  let cto: Person;
+  let dev: Person;
+
+  beforeEach(async () => {
+    ceo = new Person({ name: "Ceo" });
+    await ceo.save();
+
+    const engineering = new Team({ name: "Engineering" });
+    await engineering.save();
+
+    cto = new Person({
+      name: "Cto",
+      manager: ceo.docRef,
+      team: engineering.docRef,
+    });
+    await cto.save();
+    await engineering.update({ head: cto.docRef });
+
+    dev = new Person({
+      name: "Dev",
+      manager: cto.docRef,
+      team: engineering.docRef,
+    });
+    await dev.save();
+  });
+
+  it("should populate dotted paths", async () => {
+    const found = await Person.findById(dev.id!, {
+      populate: ["team.head.manager"],
+    });
+
+    const team = found!.team as Team;
+    expect(team).toBeInstanceOf(Team);
+    expect((team.head as Person).name).toBe("Cto");
+    expect(((team.head as Person).manager as Person).name).toBe("Ceo");
+    expect(found!.manager).toBeInstanceOf(DocumentReference);
+  });
+
+  it("should populate the object syntax", async () => {
+    const found = await Person.findById(dev.id!, {
+      populate: [{ path: "manager", populate: ["team", "manager"] }],
+    });
+
+    const manager = found!.manager as Person;
+    expect(manager.name).toBe("Cto");
+    expect((manager.team as Team).name).toBe("Engineering");
+    expect((manager.manager as Person).name).toBe("Ceo");
+  });
+
+  it("should support nested paths on instance.populate()", async () => {
+    const found = (await Person.findById(dev.id!))!;
+    await found.populate(["manager.manager", "team"]);
+
+    expect(((found.manager as Person).manager as Person).name).toBe("Ceo");
+    expect((found.team as Team).name).toBe("Engineering");
+  });
+
+  it("should stop at the configured max depth", async () => {
+    const found = await Person.findById(dev.id!, {
+      populate: ["manager.manager"],
+      maxPopulateDepth: 1,
+    });
+
+    const manager = found!.manager as Person;
+    expect(manager).toBeInstanceOf(Person);
+    expect(manager.manager).toBeInstanceOf(DocumentReference);
+  });
+
+  it("should reuse already loaded documents instead of looping on cycles", async () => {
+    const alice = new Partner({ name: "Alice" });
+    await alice.save();
+    const bob = new Partner({ name: "Bob", partner: alice.docRef });
+    await bob.save();
+    await alice.update({ partner: bob.docRef });
+
+    const found = await Partner.findById(alice.id!);
+
+    const partner = found!.partner as Partner;
+    expect(partner.name).toBe("Bob");
+    expect(partner.partner).toBe(found);
+  });
+});
@@ -0,0 +1,75 @@
+import { InvalidPageTokenError, setPageTokenSecret } from "../src";
+import { User, UserStatusEnum } from "./helpers/models";
+
+describe("BaseModel - paginate()", () => {
+  const orderBy = { field: "age" as const, direction: "asc" as const };
+
+  beforeAll(() => {
+    setPageTokenSecret("test-page-token-secret");
+  });
+
+  beforeEach(async () => {
+    // Two users share age 30 so the document ID tie-breaker is exercised
+    const ages = [10, 20, 30, 30, 40];
+    for (const [i, age] of ages.entries()) {
+      await new User({ name: `User ${i}`, email: `user${i}@test.com`, age, status: UserStatusEnum.ACTIVE }).save();
+    }
+  });
+
+  it("should walk forward through every page without gaps or duplicates", async () => {
+    const seen: string[] = [];
+    let pageToken: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await User.paginate({ pageSize: 2, orderBy, pageToken });
+      seen.push(...page.items.map((u) => u.id!));
+      pageToken = page.nextPageToken;
+      pages++;
+      expect(page.hasMore).toBe(pageToken !== undefined);
+    } while (pageToken);
+
+    expect(pages).toBe(3);
+    expect(new Set(seen).size).toBe(5);
+  });
+
+  it("should return serializable tokens and page back with prevPageToken", async () => {
+    const first = await User.paginate({ pageSize: 2, orderBy });
+    expect(first.prevPageToken).toBeUndefined();
+    expect(typeof first.nextPageToken).toBe("string");
+
+    // Round-trip the token through JSON as an HTTP client would
+    const token = JSON.parse(JSON.stringify({ t: first.nextPageToken })).t;
+    const second = await User.paginate({ pageSize: 2, orderBy, pageToken: token });
+    expect(second.items.map((u) => u.age)).toEqual([30, 30]);
+    expect(second.prevPageToken).toBeDefined();
+
+    const back = await User.paginate({ pageSize: 2, orderBy, pageToken: second.prevPageToken });
+    expect(back.items.map((u) => u.id)).toEqual(first.items.map((u) => u.id));
+    expect(back.prevPageToken).toBeUndefined();
+    expect(back.hasMore).toBe(true);
+  });
+
+  it("should reject tampered tokens", async () => {
+    const { nextPageToken } = await User.paginate({ pageSize: 2, orderBy });
+    const [payload, signature] = nextPageToken!.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), id: "other" })
+    ).toString("base64url");
+
+    await expect(
+      User.paginate({ pageSize: 2, orderBy, pageToken: `${forged}.${signature}` })
+    ).rejects.toThrow(InvalidPageTokenError);
+    await expect(
+      User.paginate({ pageSize: 2, orderBy, pageToken: "not-a-token" })
+    ).rejects.toThrow(InvalidPageTokenError);
+  });
+
+  it("should reject tokens issued for a different ordering", async () => {
+    const { nextPageToken } = await User.paginate({ pageSize: 2, orderBy });
+
+    await expect(
+      User.paginate({ pageSize: 2, orderBy: { field: "name" }, pageToken: nextPageToken })
+    ).rejects.toThrow(/different ordering/);
+  });
+});
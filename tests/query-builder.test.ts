@@ -0,0 +1,78 @@
+import { Filter } from "../src";
+import { Department, User, userHooks, UserStatusEnum } from "./helpers/models";
+
+describe("BaseModel - Query Builder", () => {
+  beforeEach(async () => {
+    userHooks.reset();
+    await new User({ name: "Alice", email: "alice@test.com", age: 17, status: UserStatusEnum.ACTIVE, tags: ["vip"] }).save();
+    await new User({ name: "Bob", email: "bob@test.com", age: 25, status: UserStatusEnum.INACTIVE }).save();
+    await new User({ name: "Carol", email: "carol@test.com", age: 40, status: UserStatusEnum.PENDING }).save();
+    await new User({ name: "Dave", email: "dave@test.com", age: 25, status: UserStatusEnum.ACTIVE }).save();
+  });
+
+  it("should chain where() clauses and return hydrated instances", async () => {
+    const results = await User.query()
+      .where("age", ">=", 18)
+      .where("status", "in", [UserStatusEnum.ACTIVE, UserStatusEnum.INACTIVE])
+      .get();
+
+    expect(results.map((u) => u.name).sort()).toEqual(["Bob", "Dave"]);
+    results.forEach((u) => {
+      expect(u).toBeInstanceOf(User);
+      expect(u.id).toBeDefined();
+    });
+  });
+
+  it("should apply multiple orderBy clauses and limit()", async () => {
+    const results = await User.query()
+      .orderBy("age", "desc")
+      .orderBy("name", "desc")
+      .limit(3)
+      .get();
+
+    expect(results.map((u) => u.name)).toEqual(["Carol", "Dave", "Bob"]);
+  });
+
+  it("should support composite filters through the filter factory", async () => {
+    const results = await User.query()
+      .where((f) =>
+        f.or(f.where("age", "<", 18), f.where("status", "==", UserStatusEnum.PENDING))
+      )
+      .orderBy("name")
+      .get();
+
+    expect(results.map((u) => u.name)).toEqual(["Alice", "Carol"]);
+  });
+
+  it("should accept a raw Filter", async () => {
+    const results = await User.query()
+      .where(Filter.and(Filter.where("age", "==", 25), Filter.where("status", "==", UserStatusEnum.ACTIVE)))
+      .get();
+
+    expect(results).toHaveLength(1);
+    expect(results[0].name).toBe("Dave");
+  });
+
+  it("should return the first match or null with first()", async () => {
+    const youngest = await User.query().orderBy("age").first();
+    expect(youngest?.name).toBe("Alice");
+
+    const nobody = await User.query().where("age", ">", 100).first();
+    expect(nobody).toBeNull();
+  });
+
+  it("should populate relations like findAll()", async () => {
+    const dept = new Department({ name: "Engineering" });
+    await dept.save();
+    const user = new User({ name: "Eve", email: "eve@test.com", department: dept.docRef });
+    await user.save();
+
+    const [found] = await User.query()
+      .where("name", "==", "Eve")
+      .populate(["department"])
+      .get();
+
+    expect(found.department).toBeInstanceOf(Department);
+    expect((found.department as Department).name).toBe("Engineering");
+  });
+});
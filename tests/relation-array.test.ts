@@ -0,0 +1,149 @@
+import {
+  BaseModel,
+  Collection,
+  DocumentReference,
+  getFirestoreInstance,
+  RelationArray,
+  StringField,
+  ValidationError,
+} from "../src";
+import { Department } from "./helpers/models";
+
+@Collection("tags")
+class Tag extends BaseModel {
+  @StringField({ required: true })
+  label!: string;
+}
+
+@Collection("articles")
+class Article extends BaseModel {
+  @StringField({ required: true })
+  title!: string;
+
+  @RelationArray(() => Tag)
+  tags?: (DocumentReference | Tag)[];
+}
+
+describe("BaseModel - @RelationArray", () => {
+  let ts: Tag;
+  let node: Tag;
+  let orm: Tag;
+
+  beforeEach(async () => {
+    ts = new Tag({ label: "typescript" });
+    node = new Tag({ label: "node" });
+    orm = new Tag({ label: "orm" });
+    for (const tag of [ts, node, orm]) await tag.save();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should store a mixed array of instances and refs as refs", async () => {
+    const article = new Article({ title: "Hello", tags: [ts, node.docRef] });
+    await article.save();
+
+    const stored = (await article.docRef.get()).get("tags");
+    expect(stored).toHaveLength(2);
+    expect(stored[0]).toBeInstanceOf(DocumentReference);
+    expect(stored.map((r: DocumentReference) => r.id)).toEqual([
+      ts.id,
+      node.id,
+    ]);
+  });
+
+  it("should populate every element of a listing in one getAll round trip", async () => {
+    await new Article({ title: "A", tags: [ts.docRef, node.docRef] }).save();
+    await new Article({ title: "B", tags: [node.docRef, orm.docRef] }).save();
+    const getAll = jest.spyOn(getFirestoreInstance(), "getAll");
+
+    const { results } = await Article.findAll({
+      populate: ["tags"],
+      orderBy: { field: "title" },
+    });
+
+    expect(getAll).toHaveBeenCalledTimes(1);
+    expect(getAll.mock.calls[0]).toHaveLength(3);
+    const [a, b] = results;
+    expect((a.tags as Tag[]).map((t) => t.label)).toEqual([
+      "typescript",
+      "node",
+    ]);
+    expect(a.tags![1]).toBe(b.tags![0]);
+  });
+
+  it("should keep dangling references when populating and saving", async () => {
+    const article = new Article({ title: "A", tags: [ts.docRef, orm.docRef] });
+    await article.save();
+    await orm.delete();
+
+    const found = await Article.findById(article.id!, { populate: ["tags"] });
+    const [populated, dangling] = found!.tags!;
+    expect((populated as Tag).label).toBe("typescript");
+    expect(dangling).toBeInstanceOf(DocumentReference);
+    expect(found!.isDirty()).toBe(false);
+
+    found!.title = "Renamed";
+    await found!.save();
+    const stored = (await article.docRef.get()).get("tags");
+    expect(stored.map((r: DocumentReference) => r.id)).toEqual([ts.id, orm.id]);
+  });
+
+  it("should reject elements of another model", async () => {
+    const dept = new Department({ name: "Ops" });
+    await dept.save();
+
+    const article = new Article({ title: "A", tags: [dept.docRef] });
+    await expect(article.save()).rejects.toThrow(ValidationError);
+    await expect(
+      new Article({ title: "B", tags: ["typescript" as any] }).save()
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it("should add and remove relations with arrayUnion/arrayRemove", async () => {
+    const article = new Article({ title: "A", tags: [ts.docRef] });
+    await article.save();
+
+    await article.addRelation("tags", node, ts.docRef);
+    let stored = (await article.docRef.get()).get("tags");
+    expect(stored.map((r: DocumentReference) => r.id)).toEqual([
+      ts.id,
+      node.id,
+    ]);
+    expect(article.tags).toHaveLength(2);
+    expect(article.isDirty("tags")).toBe(false);
+
+    await article.removeRelation("tags", ts);
+    stored = (await article.docRef.get()).get("tags");
+    expect(stored.map((r: DocumentReference) => r.id)).toEqual([node.id]);
+    expect(article.tags).toEqual([node]);
+  });
+
+  it("should keep concurrent additions", async () => {
+    const article = new Article({ title: "A", tags: [] });
+    await article.save();
+    const stale = (await Article.findById(article.id!))!;
+
+    await article.addRelation("tags", ts);
+    await stale.addRelation("tags", orm);
+
+    const found = await Article.findById(article.id!, { populate: ["tags"] });
+    expect((found!.tags as Tag[]).map((t) => t.label).sort()).toEqual([
+      "orm",
+      "typescript",
+    ]);
+  });
+
+  it("should refuse unsaved instances and unknown properties", async () => {
+    const article = new Article({ title: "A" });
+    await article.save();
+
+    await expect(
+      article.addRelation("tags", new Tag({ label: "draft" }))
+    ).rejects.toThrow("Save them first");
+    await expect(article.addRelation("title", ts)).rejects.toThrow(
+      '@RelationArray not defined for property "title" on Article'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  BaseModel,
+  Collection,
+  getFirestoreInstance,
+  NumberField,
+  SoftDelete,
+  StringField,
+  Timestamp,
+  WriteResult,
+} from "../src";
+import { runInTransaction } from "../src/core/transaction-manager";
+
+const accountHooks = {
+  beforeDelete: jest.fn(),
+  afterDelete: jest.fn(),
+  beforeRestore: jest.fn(),
+  afterRestore: jest.fn(),
+};
+
+@SoftDelete({ field: "deletedAt" })
+@Collection("accounts")
+class Account extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @NumberField()
+  score?: number;
+
+  deletedAt?: Timestamp | null;
+
+  async beforeDelete() {
+    accountHooks.beforeDelete(this);
+  }
+
+  async afterDelete(result: WriteResult, originalId: string) {
+    accountHooks.afterDelete(originalId, result);
+  }
+
+  async beforeRestore() {
+    accountHooks.beforeRestore(this);
+  }
+
+  async afterRestore(result: WriteResult) {
+    accountHooks.afterRestore(this, result);
+  }
+}
+
+describe("BaseModel - Soft delete", () => {
+  let live: Account;
+  let removed: Account;
+
+  beforeEach(async () => {
+    live = new Account({ name: "Live", score: 1 });
+    removed = new Account({ name: "Removed", score: 2 });
+    await live.save();
+    await removed.save();
+    await removed.delete();
+  });
+
+  it("should stamp the field instead of deleting the document", async () => {
+    const snap = await getFirestoreInstance()
+      .collection("accounts")
+      .doc(removed.id!)
+      .get();
+    expect(snap.exists).toBe(true);
+    expect(snap.data()?.deletedAt).toBeInstanceOf(Timestamp);
+    expect(removed.id).toBeDefined();
+    expect(removed.deletedAt).toBeInstanceOf(Timestamp);
+    expect(accountHooks.beforeDelete).toHaveBeenCalledTimes(1);
+    expect(accountHooks.afterDelete).toHaveBeenCalledWith(removed.id, expect.anything());
+  });
+
+  it("should exclude soft-deleted documents from finders by default", async () => {
+    expect(await Account.findById(removed.id!)).toBeNull();
+    expect((await Account.findAll()).results.map((a) => a.name)).toEqual(["Live"]);
+    expect(await Account.findWhere("name", "==", "Removed")).toHaveLength(0);
+    expect(await Account.findOne((ref) => ref.where("name", "==", "Removed"))).toBeNull();
+    expect(await Account.count()).toBe(1);
+  });
+
+  it("should honor withDeleted and onlyDeleted", async () => {
+    expect(await Account.findById(removed.id!, { withDeleted: true })).not.toBeNull();
+    expect(await Account.findById(live.id!, { onlyDeleted: true })).toBeNull();
+
+    const all = await Account.findAll({ withDeleted: true });
+    expect(all.results.map((a) => a.name).sort()).toEqual(["Live", "Removed"]);
+
+    const deleted = await Account.findAll({ onlyDeleted: true });
+    expect(deleted.results.map((a) => a.name)).toEqual(["Removed"]);
+  });
+
+  it("should restore a soft-deleted document", async () => {
+    await removed.restore();
+
+    expect(removed.deletedAt).toBeNull();
+    expect(accountHooks.beforeRestore).toHaveBeenCalledTimes(1);
+    expect(accountHooks.afterRestore).toHaveBeenCalledTimes(1);
+    expect(await Account.findById(removed.id!)).not.toBeNull();
+  });
+
+  it("should remove the document for good with forceDelete()", async () => {
+    const id = removed.id!;
+    await removed.forceDelete();
+
+    const snap = await getFirestoreInstance().collection("accounts").doc(id).get();
+    expect(snap.exists).toBe(false);
+    expect(removed.id).toBeUndefined();
+  });
+
+  it("should soft delete within a transaction", async () => {
+    await runInTransaction(async () => {
+      const result = await live.delete();
+      expect(result).toBeUndefined();
+    });
+
+    expect(await Account.findById(live.id!)).toBeNull();
+    expect(await Account.findById(live.id!, { withDeleted: true })).not.toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { Query } from "../src";
+import { User, UserStatusEnum } from "./helpers/models";
+
+describe("BaseModel - stream()", () => {
+  beforeEach(async () => {
+    for (let i = 0; i < 5; i++) {
+      await new User({ name: `Stream ${i}`, email: `stream${i}@test.com`, age: 20 + i, status: UserStatusEnum.ACTIVE }).save();
+    }
+  });
+
+  it("should yield every document across batches as hydrated instances", async () => {
+    const ages: number[] = [];
+    for await (const user of User.stream({ queryFn: (ref) => ref.orderBy("age"), batchSize: 2 })) {
+      expect(user).toBeInstanceOf(User);
+      ages.push(user.age!);
+    }
+    expect(ages).toEqual([20, 21, 22, 23, 24]);
+  });
+
+  it("should honor the queryFn filter and the total limit", async () => {
+    const names: string[] = [];
+    for await (const user of User.stream({
+      queryFn: (ref) => ref.where("age", ">=", 21).orderBy("age"),
+      batchSize: 2,
+      limit: 3,
+    })) {
+      names.push(user.name);
+    }
+    expect(names).toEqual(["Stream 1", "Stream 2", "Stream 3"]);
+  });
+
+  it("should stop reading when the consumer breaks early", async () => {
+    const getSpy = jest.spyOn(Query.prototype, "get");
+    let count = 0;
+    for await (const _user of User.stream({ batchSize: 2 })) {
+      count++;
+      if (count === 1) break;
+    }
+    expect(count).toBe(1);
+    expect(getSpy).toHaveBeenCalledTimes(1);
+    getSpy.mockRestore();
+  });
+});
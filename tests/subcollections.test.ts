@@ -131,6 +131,46 @@ describe("Nested SubCollection population", () => {
   });
 });
 
+describe("SubCollection population on listings", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("loads the subcollections of every result concurrently", async () => {
+    for (const name of ["A", "B", "C"]) {
+      const parent = new Parent({ name });
+      await parent.save();
+      await new Child({ value: `${name}1` }, parent).save();
+      await new Child({ value: `${name}2` }, parent).save();
+    }
+    const subcollection = BaseModel.prototype.subcollection;
+    let inFlight = 0;
+    let maxInFlight = 0;
+    jest
+      .spyOn(BaseModel.prototype, "subcollection")
+      .mockImplementation(async function (this: BaseModel, ...args: any[]) {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        try {
+          return await (subcollection as any).apply(this, args);
+        } finally {
+          inFlight--;
+        }
+      });
+
+    const { results } = await Parent.findAll();
+
+    expect(results).toHaveLength(3);
+    for (const parent of results) {
+      expect(parent.children!.map((c) => c.value).sort()).toEqual([
+        `${parent.name}1`,
+        `${parent.name}2`,
+      ]);
+      expect((parent.children![0] as any).__parent).toBe(parent);
+    }
+    expect(maxInFlight).toBe(3);
+  });
+});
+
 describe("Querying Subcollections", () => {
   it("should filter documents in a subcollection using a where clause", async () => {
     const p = new Parent({ name: "Parent for Query" });
@@ -580,3 +620,64 @@ describe("SubCollectionModel with Relations", () => {
     expect(nextReport2022.nextReport).toBeInstanceOf(DocumentReference);
   });
 });
+
+describe("Collection-group queries across parents", () => {
+  it("findAcrossParents() returns matches from every parent", async () => {
+    const alice = new User({ name: "Alice" });
+    const bob = new User({ name: "Bob" });
+    await alice.save();
+    await bob.save();
+    await new GiftCard({ code: "A1", amount: 10 }, alice).save();
+    await new GiftCard({ code: "A2", amount: 0 }, alice).save();
+    await new GiftCard({ code: "B1", amount: 25 }, bob).save();
+
+    const funded = await GiftCard.findAcrossParents((q) =>
+      q.where("amount", ">", 0)
+    );
+
+    expect(funded.map((gc) => gc.code).sort()).toEqual(["A1", "B1"]);
+    funded.forEach((gc) => expect(gc).toBeInstanceOf(GiftCard));
+  });
+
+  it("rebuilds the parent so docRef and save() keep working", async () => {
+    const db = getFirestoreInstance();
+    const alice = new User({ name: "Alice" });
+    await alice.save();
+    await new GiftCard({ code: "A1", amount: 10 }, alice).save();
+
+    const [card] = await GiftCard.findAcrossParents();
+    const parent = (card as any).__parent as User;
+    expect(parent).toBeInstanceOf(User);
+    expect(parent.id).toBe(alice.id);
+    expect(card.docRef.path).toBe(`users/${alice.id}/gift-cards/${card.id}`);
+
+    card.amount = 99;
+    await card.save();
+
+    const snap = await db
+      .collection("users")
+      .doc(alice.id!)
+      .collection("gift-cards")
+      .doc(card.id!)
+      .get();
+    expect(snap.data()?.amount).toBe(99);
+  });
+
+  it("rebuilds nested parent chains", async () => {
+    const p = new Parent({ name: "P" });
+    await p.save();
+    const c = new Child({ value: "child" }, p);
+    await c.save();
+    await new Toy({ name: "Kite", category: "outdoor" }, c).save();
+
+    const [toy] = await Toy.findAcrossParents();
+    const child = (toy as any).__parent as Child;
+    expect(child).toBeInstanceOf(Child);
+    expect(child.id).toBe(c.id);
+    expect(((child as any).__parent as Parent).id).toBe(p.id);
+
+    await toy.update({ category: "indoor" });
+    const toys = await c.subcollection<Toy>("toys");
+    expect(toys[0].category).toBe("indoor");
+  });
+});
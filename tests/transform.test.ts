@@ -0,0 +1,136 @@
+import {
+  ArrayField,
+  BaseModel,
+  Collection,
+  Embedded,
+  getFirestoreInstance,
+  registerConverter,
+  StringField,
+  Transform,
+  z,
+} from "../src";
+
+class Money {
+  constructor(public cents: number) {}
+}
+
+registerConverter("set", {
+  test: (value) => value instanceof Set,
+  toFirestore: (set: Set<unknown>) => [...set],
+  fromFirestore: (items: unknown[]) => new Set(items),
+});
+
+@Collection("wallets")
+class Wallet extends BaseModel {
+  @StringField()
+  @Transform({
+    toFirestore: (money: Money) => String(money.cents),
+    fromFirestore: (stored: string) => new Money(Number(stored)),
+  })
+  balance?: Money;
+
+  @ArrayField(z.string())
+  @Transform("set")
+  badges?: Set<string>;
+
+  @ArrayField(z.string())
+  labels?: string[];
+}
+
+class Purchase {
+  @StringField()
+  @Transform({
+    toFirestore: (money: Money) => String(money.cents),
+    fromFirestore: (stored: string) => new Money(Number(stored)),
+  })
+  price?: Money;
+}
+
+@Collection("receipts")
+class Receipt extends BaseModel {
+  @Embedded(() => Purchase)
+  purchase?: Purchase;
+}
+
+const stored = async (wallet: Wallet) => (await wallet.docRef.get()).data();
+
+describe("@Transform and registered converters", () => {
+  it("should store converted values and load them back", async () => {
+    const wallet = new Wallet({
+      balance: new Money(150),
+      badges: new Set(["gold"]),
+    });
+    await wallet.save();
+
+    expect(await stored(wallet)).toEqual({ balance: "150", badges: ["gold"] });
+
+    const loaded = (await Wallet.findById(wallet.id!))!;
+    expect(loaded.balance).toEqual(new Money(150));
+    expect(loaded.badges).toEqual(new Set(["gold"]));
+    expect(loaded.isDirty()).toBe(false);
+  });
+
+  it("should apply registered converters to untransformed values", async () => {
+    const wallet = new Wallet({ labels: new Set(["a", "b"]) as any });
+    await wallet.save();
+
+    expect((await stored(wallet))!.labels).toEqual(["a", "b"]);
+  });
+
+  it("should convert update payloads and keep domain values locally", async () => {
+    const wallet = new Wallet({ balance: new Money(1) });
+    await wallet.save();
+
+    await wallet.update({ balance: new Money(99), badges: new Set(["x"]) });
+
+    expect(await stored(wallet)).toEqual({ balance: "99", badges: ["x"] });
+    expect(wallet.balance).toEqual(new Money(99));
+    expect(wallet.badges).toEqual(new Set(["x"]));
+  });
+
+  it("should convert where values", async () => {
+    await getFirestoreInstance()
+      .collection("wallets")
+      .doc("raw")
+      .set({ balance: "42", labels: ["vip"] });
+
+    const [found] = await Wallet.findWhere("balance", "==", new Money(42));
+    expect(found.id).toBe("raw");
+
+    const listed = await Wallet.query()
+      .where("balance", "in", [new Money(1), new Money(42)])
+      .get();
+    expect(listed.map((w) => w.id)).toEqual(["raw"]);
+
+    const tagged = await Wallet.query()
+      .where((f) => f.where("labels", "array-contains", "vip"))
+      .get();
+    expect(tagged.map((w) => w.id)).toEqual(["raw"]);
+  });
+
+  it("should serialize transformed values in toJSON", () => {
+    const wallet = new Wallet({
+      balance: new Money(5),
+      badges: new Set(["a"]),
+    });
+
+    expect(wallet.toJSON()).toEqual({ balance: "5", badges: ["a"] });
+  });
+
+  it("should apply the @Transform of embedded fields", async () => {
+    const receipt = new Receipt({ purchase: { price: new Money(5) } });
+    await receipt.save();
+
+    expect((await receipt.docRef.get()).data()).toEqual({
+      purchase: { price: "5" },
+    });
+
+    const loaded = (await Receipt.findById(receipt.id!))!;
+    expect(loaded.purchase!.price).toEqual(new Money(5));
+    expect(loaded.isDirty()).toBe(false);
+
+    await loaded.update({ "purchase.price": new Money(7) } as any);
+    expect(loaded.purchase!.price).toEqual(new Money(7));
+    expect((await receipt.docRef.get()).get("purchase.price")).toBe("7");
+  });
+});
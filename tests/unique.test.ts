@@ -0,0 +1,197 @@
+import { WriteBatch } from "firebase-admin/firestore";
+import {
+  BaseModel,
+  Collection,
+  ConflictError,
+  EmailField,
+  getFirestoreInstance,
+  StringField,
+  Unique,
+  UniqueConstraintError,
+} from "../src";
+import { runInTransaction } from "../src/core/transaction-manager";
+
+@Collection("profiles")
+@Unique(["firstName", "lastName"])
+class Account extends BaseModel {
+  @Unique()
+  @EmailField()
+  email!: string;
+
+  @Unique()
+  @StringField({ required: false })
+  username?: string;
+
+  @StringField({ required: false })
+  firstName?: string;
+
+  @StringField({ required: false })
+  lastName?: string;
+}
+
+const reservations = async () =>
+  (await getFirestoreInstance().collection("_unique").get()).size;
+
+describe("BaseModel - @Unique", () => {
+  it("should reject a taken value with UniqueConstraintError", async () => {
+    const first = new Account({ email: "ada@test.com", username: "ada" });
+    await first.save();
+
+    const copy = new Account({ email: "ada@test.com", username: "lovelace" });
+    const error = await copy.save().catch((e) => e);
+
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect(error.field).toBe("email");
+    expect(error.value).toBe("ada@test.com");
+    expect(error.conflictingId).toBe(first.id);
+    // Nothing was written for the rejected document
+    expect((await copy.docRef.get()).exists).toBe(false);
+    expect(await reservations()).toBe(2);
+  });
+
+  it("should not constrain missing values", async () => {
+    await new Account({ email: "a@test.com" }).save();
+    await new Account({ email: "b@test.com" }).save();
+
+    expect(await reservations()).toBe(2);
+  });
+
+  it("should enforce composite constraints on the combination", async () => {
+    await new Account({
+      email: "a@test.com",
+      firstName: "Ada",
+      lastName: "Lovelace",
+    }).save();
+    await new Account({
+      email: "b@test.com",
+      firstName: "Ada",
+      lastName: "Byron",
+    }).save();
+
+    const error = await new Account({
+      email: "c@test.com",
+      firstName: "Ada",
+      lastName: "Lovelace",
+    })
+      .save()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect(error.field).toBe("firstName, lastName");
+    expect(error.value).toEqual(["Ada", "Lovelace"]);
+  });
+
+  it("should release the old value when it changes", async () => {
+    const account = new Account({ email: "old@test.com" });
+    await account.save();
+
+    await account.update({ email: "new@test.com" });
+    await expect(
+      new Account({ email: "new@test.com" }).save()
+    ).rejects.toThrow(UniqueConstraintError);
+
+    // The released value can be taken again
+    await new Account({ email: "old@test.com" }).save();
+
+    account.email = "newer@test.com";
+    await account.save();
+    await new Account({ email: "new@test.com" }).save();
+  });
+
+  it("should allow re-saving a document with its own values", async () => {
+    const account = new Account({ email: "me@test.com", username: "me" });
+    await account.save();
+    await account.save();
+
+    const loaded = (await Account.findById(account.id!))!;
+    await loaded.update({ username: "me" });
+    expect(await reservations()).toBe(2);
+  });
+
+  it("should release every value on delete", async () => {
+    const account = new Account({ email: "gone@test.com", username: "gone" });
+    await account.save();
+    await account.delete();
+
+    expect(await reservations()).toBe(0);
+    await new Account({ email: "gone@test.com", username: "gone" }).save();
+  });
+
+  it("should keep only one of two concurrent writers", async () => {
+    const results = await Promise.allSettled([
+      new Account({ email: "race@test.com" }).save(),
+      new Account({ email: "race@test.com" }).save(),
+    ]);
+
+    const rejected = results.filter((r) => r.status === "rejected");
+    expect(rejected).toHaveLength(1);
+    expect((rejected[0] as PromiseRejectedResult).reason).toBeInstanceOf(
+      UniqueConstraintError
+    );
+    const { results: stored } = await Account.findAll();
+    expect(stored).toHaveLength(1);
+  });
+
+  it("should reject a release racing a concurrent change with ConflictError", async () => {
+    const account = new Account({ email: "shared@test.com" });
+    await account.save();
+    const other = (await Account.findById(account.id!))!;
+
+    // The other copy releases the value between the check and the commit
+    const commit = WriteBatch.prototype.commit;
+    const spy = jest
+      .spyOn(WriteBatch.prototype, "commit")
+      .mockImplementationOnce(async function (this: WriteBatch) {
+        await other.update({ email: "other@test.com" });
+        return commit.call(this);
+      });
+    const error = await account
+      .update({ email: "mine@test.com" })
+      .catch((e) => e);
+    spy.mockRestore();
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.documentId).toBe(account.id);
+    expect((await Account.findById(account.id!))!.email).toBe("other@test.com");
+    expect(await reservations()).toBe(1);
+  });
+
+  it("should check and reserve inside runInTransaction", async () => {
+    await new Account({ email: "tx@test.com" }).save();
+
+    await expect(
+      runInTransaction(async () => {
+        await new Account({ email: "tx@test.com" }).save();
+      })
+    ).rejects.toThrow(UniqueConstraintError);
+
+    await runInTransaction(async () => {
+      await new Account({ email: "tx2@test.com" }).save();
+    });
+    expect(await reservations()).toBe(2);
+  });
+
+  it("should explain reservations read after writes in runInTransaction", async () => {
+    const other = getFirestoreInstance().collection("notes").doc();
+
+    await expect(
+      runInTransaction(async (transaction) => {
+        transaction.set(other, { text: "queued first" });
+        await new Account({ email: "late@test.com" }).save();
+      })
+    ).rejects.toThrow("write Account before the other writes");
+    expect(await reservations()).toBe(0);
+  });
+
+  it("should report conflicts per document in bulk operations", async () => {
+    await new Account({ email: "bulk@test.com" }).save();
+
+    const report = await Account.insertMany([
+      new Account({ email: "bulk@test.com" }),
+      new Account({ email: "fresh@test.com" }),
+    ]);
+
+    expect(report.successCount).toBe(1);
+    expect(report.results[0].error).toBeInstanceOf(UniqueConstraintError);
+    expect(await reservations()).toBe(2);
+  });
+});
@@ -0,0 +1,127 @@
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { z } from "zod";
+import {
+  ArrayField,
+  BaseModel,
+  Collection,
+  EmailField,
+  MapField,
+  NumberField,
+  StringField,
+  TimestampField,
+  ValidationError,
+} from "../src";
+
+@Collection("accounts")
+class Account extends BaseModel {
+  @StringField({ required: true })
+  name!: string;
+
+  @EmailField()
+  email?: string;
+
+  @NumberField({ min: 0 })
+  age?: number;
+
+  @ArrayField(z.string())
+  tags?: string[];
+
+  @MapField(z.number().int())
+  scores?: Record<string, number>;
+
+  @MapField(z.any())
+  settings?: Record<string, unknown>;
+
+  @TimestampField()
+  seenAt?: Timestamp;
+}
+
+const stored = async (account: Account) => (await account.docRef.get()).data();
+
+describe("BaseModel - update() validation", () => {
+  let account: Account;
+
+  beforeEach(async () => {
+    account = new Account({
+      name: "Ada",
+      email: "ada@test.com",
+      age: 36,
+      scores: { math: 10 },
+    });
+    await account.save();
+  });
+
+  it("should reject invalid values with a ValidationError and write nothing", async () => {
+    const error = await account
+      .update({ age: -5, email: "nope" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues.map((i: any) => i.path.join("."))).toEqual([
+      "age",
+      "email",
+    ]);
+    expect(await stored(account)).toMatchObject({
+      age: 36,
+      email: "ada@test.com",
+    });
+  });
+
+  it("should not require the fields left out of the payload", async () => {
+    await account.update({ age: 37 });
+
+    expect((await stored(account))!.age).toBe(37);
+  });
+
+  it("should reject unknown fields", async () => {
+    await expect(account.update({ nickname: "A" } as any)).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it("should validate dotted paths against the map field schema", async () => {
+    await account.update({
+      "scores.art": 7,
+      "settings.theme.dark": true,
+    } as any);
+    expect((await stored(account))!.scores).toEqual({ math: 10, art: 7 });
+
+    await expect(account.update({ "scores.art": 7.5 } as any)).rejects.toThrow(
+      "(scores.art) Expected integer, received float"
+    );
+    await expect(account.update({ "age.value": 1 } as any)).rejects.toThrow(
+      "'age' is not a map field"
+    );
+  });
+
+  it("should type-check FieldValue sentinels", async () => {
+    await account.update({
+      age: FieldValue.increment(1),
+      tags: FieldValue.arrayUnion("vip"),
+      seenAt: FieldValue.serverTimestamp(),
+      "scores.math": FieldValue.delete(),
+    } as any);
+    expect(await stored(account)).toMatchObject({
+      age: 37,
+      tags: ["vip"],
+      scores: {},
+    });
+
+    await expect(
+      account.update({ name: FieldValue.increment(1) } as any)
+    ).rejects.toThrow("increment() can only be applied to a number field");
+    await expect(
+      account.update({ age: FieldValue.arrayUnion(1) } as any)
+    ).rejects.toThrow("arrayUnion() can only be applied to an array field");
+    await expect(
+      account.update({ name: FieldValue.delete() } as any)
+    ).rejects.toThrow("Required field cannot be deleted");
+  });
+
+  it("should report invalid payloads per document in updateMany", async () => {
+    const report = await Account.updateMany(undefined, { age: -1 });
+
+    expect(report.successCount).toBe(0);
+    expect(report.results[0].error).toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  BaseModel,
+  Collection,
+  DateField,
+  DocumentData,
+  EmailField,
+  FieldValue,
+  NumberField,
+  StringField,
+  ValidateModel,
+  ValidationError,
+  z,
+} from "../src";
+
+@ValidateModel((schema) =>
+  schema.superRefine((booking, ctx) => {
+    if (booking.endsAt.toMillis() <= booking.startsAt.toMillis()) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["endsAt"],
+        message: "Must be after startsAt",
+      });
+    }
+  })
+)
+@Collection("bookings")
+class Booking extends BaseModel {
+  @DateField({ required: true })
+  startsAt!: Date;
+
+  @DateField({ required: true })
+  endsAt!: Date;
+
+  @EmailField()
+  email?: string;
+
+  @StringField()
+  phone?: string;
+
+  @NumberField()
+  seats?: number;
+
+  validateModel(data: DocumentData, ctx: z.RefinementCtx) {
+    if (!data.email && !data.phone) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["email"],
+        message: "Either phone or email is required",
+      });
+    }
+    if ((data.seats ?? 0) > 4) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["seats"],
+        message: "At most 4 seats",
+      });
+    }
+  }
+}
+
+const paths = (error: ValidationError) =>
+  error.issues.map((i) => i.path.join("."));
+
+describe("Cross-field validation", () => {
+  let booking: Booking;
+
+  beforeEach(async () => {
+    booking = new Booking({
+      startsAt: new Date(1000),
+      endsAt: new Date(2000),
+      phone: "555-0100",
+    });
+    await booking.save();
+  });
+
+  it("should run the model rules on save", async () => {
+    const invalid = new Booking({
+      startsAt: new Date(2000),
+      endsAt: new Date(1000),
+    });
+
+    const error = await invalid.save().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(paths(error)).toEqual(["endsAt", "email"]);
+    expect(invalid.id).toBeUndefined();
+  });
+
+  it("should check updates against the merged state", async () => {
+    const error = await booking
+      .update({ endsAt: new Date(500) })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(paths(error)).toEqual(["endsAt"]);
+
+    await expect(
+      booking.update({ phone: FieldValue.delete() } as any)
+    ).rejects.toThrow("(email) Either phone or email is required");
+
+    await booking.update({
+      email: "ada@test.com",
+      phone: FieldValue.delete(),
+    } as any);
+    expect((await booking.docRef.get()).get("phone")).toBeUndefined();
+  });
+
+  it("should apply FieldValues before checking", async () => {
+    await booking.update({ seats: FieldValue.increment(3) } as any);
+
+    await expect(
+      booking.update({ seats: FieldValue.increment(3) } as any)
+    ).rejects.toThrow("(seats) At most 4 seats");
+    expect((await booking.docRef.get()).get("seats")).toBe(3);
+  });
+
+  it("should check changes written with saveChanges", async () => {
+    const loaded = (await Booking.findById(booking.id!))!;
+    loaded.startsAt = new Date(3000);
+
+    await expect(loaded.saveChanges()).rejects.toThrow(
+      "(endsAt) Must be after startsAt"
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  BaseModel,
+  Collection,
+  ConflictError,
+  getFirestoreInstance,
+  MapField,
+  StringField,
+  VersionField,
+  z,
+} from "../src";
+import { runInTransaction } from "../src/core/transaction-manager";
+
+@Collection("articles")
+class Article extends BaseModel {
+  @StringField({ required: true })
+  title!: string;
+
+  @StringField()
+  body?: string;
+
+  @MapField(z.string())
+  meta?: Record<string, string>;
+
+  @VersionField()
+  version?: number;
+}
+
+describe("BaseModel - Optimistic concurrency (@VersionField)", () => {
+  it("should start at version 1 and increment on save() and update()", async () => {
+    const article = new Article({ title: "Draft" });
+    await article.save();
+    expect(article.version).toBe(1);
+
+    article.title = "Edited";
+    await article.save();
+    expect(article.version).toBe(2);
+
+    await article.update({ body: "Hello" });
+    expect(article.version).toBe(3);
+
+    const snap = await getFirestoreInstance().collection("articles").doc(article.id!).get();
+    expect(snap.data()).toMatchObject({ title: "Edited", body: "Hello", version: 3 });
+  });
+
+  it("should throw ConflictError when another writer saved first", async () => {
+    const article = new Article({ title: "Shared" });
+    await article.save();
+
+    const first = (await Article.findById(article.id!))!;
+    const second = (await Article.findById(article.id!))!;
+
+    first.title = "First wins";
+    await first.save();
+
+    second.title = "Second loses";
+    const error = await second.save().catch((e) => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.expectedVersion).toBe(1);
+    expect(error.actualVersion).toBe(2);
+
+    await expect(second.update({ body: "nope" })).rejects.toThrow(ConflictError);
+
+    const stored = await Article.findById(article.id!);
+    expect(stored?.title).toBe("First wins");
+    expect(stored?.version).toBe(2);
+  });
+
+  it("should drop fields removed from the instance when overwriting with save()", async () => {
+    const article = new Article({ title: "T", body: "B" });
+    await article.save();
+
+    article.body = undefined;
+    await article.save();
+
+    const snap = await getFirestoreInstance().collection("articles").doc(article.id!).get();
+    expect(snap.data()?.body).toBeUndefined();
+  });
+
+  it("should check the version inside a transaction", async () => {
+    const article = new Article({ title: "Tx" });
+    await article.save();
+    const stale = (await Article.findById(article.id!))!;
+    await article.update({ body: "newer" });
+
+    await expect(
+      runInTransaction(async () => {
+        await stale.update({ body: "stale" });
+      })
+    ).rejects.toThrow(ConflictError);
+
+    await runInTransaction(async () => {
+      await article.update({ body: "fresh" });
+    });
+    const stored = await Article.findById(article.id!);
+    expect(stored?.version).toBe(3);
+    expect(stored?.body).toBe("fresh");
+  });
+
+  it("should deep-merge maps and honour mergeFields on merge saves", async () => {
+    const raw = getFirestoreInstance().collection("articles");
+    const article = new Article({ title: "Merge", body: "One", meta: { a: "1" } });
+    await article.save();
+    await raw.doc(article.id!).update({ "meta.b": "2" });
+
+    article.meta = { c: "3" };
+    await article.save({ merge: true });
+    let stored = (await raw.doc(article.id!).get()).data();
+    expect(stored).toMatchObject({ meta: { a: "1", b: "2", c: "3" }, version: 2 });
+
+    article.title = "Merged";
+    article.body = "Ignored";
+    article.meta = { d: "4" };
+    await article.save({ mergeFields: ["title", "meta"] });
+    stored = (await raw.doc(article.id!).get()).data();
+    expect(stored).toEqual({
+      title: "Merged",
+      body: "One",
+      meta: { d: "4" },
+      version: 3,
+    });
+  });
+
+  it("should merge map keys holding a dot into that key", async () => {
+    const raw = getFirestoreInstance().collection("articles");
+    const article = new Article({ title: "Dots", meta: { "a.b": "1" } });
+    await article.save();
+
+    article.meta = { "c.d": "2" };
+    await article.save({ merge: true });
+    const stored = (await raw.doc(article.id!).get()).data();
+    expect(stored).toMatchObject({
+      meta: { "a.b": "1", "c.d": "2" },
+      version: 2,
+    });
+    expect(stored?.meta).not.toHaveProperty("c");
+  });
+});
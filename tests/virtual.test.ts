@@ -0,0 +1,88 @@
+import {
+  BaseModel,
+  Collection,
+  NumberField,
+  StringField,
+  Virtual,
+} from "../src";
+
+@Collection("people")
+class Person extends BaseModel {
+  @StringField({ required: true })
+  firstName!: string;
+
+  @StringField({ required: true })
+  lastName!: string;
+
+  @NumberField({ required: false })
+  age?: number;
+
+  @Virtual({ dependsOn: ["firstName", "lastName"] })
+  get fullName(): string {
+    return `${this.firstName} ${this.lastName}`;
+  }
+
+  // Plain property filled by the application, never stored
+  @Virtual()
+  score?: number;
+}
+
+describe("BaseModel - @Virtual", () => {
+  it("should not persist nor validate virtual values", async () => {
+    const person = new Person({ firstName: "Ada", lastName: "Lovelace" });
+    person.score = 42;
+
+    await person.save();
+
+    const stored = (await person.docRef.get()).data();
+    expect(stored).toEqual({ firstName: "Ada", lastName: "Lovelace" });
+    expect(person.isDirty()).toBe(false);
+  });
+
+  it("should include virtual values in toJSON", () => {
+    const person = new Person({
+      firstName: "Ada",
+      lastName: "Lovelace",
+      score: 7,
+    });
+
+    expect(person.toJSON()).toEqual({
+      firstName: "Ada",
+      lastName: "Lovelace",
+      fullName: "Ada Lovelace",
+      score: 7,
+    });
+    expect(JSON.parse(JSON.stringify(person)).fullName).toBe("Ada Lovelace");
+  });
+
+  it("should skip getter-only virtuals passed to the constructor", () => {
+    const person = new Person({ firstName: "Ada", lastName: "Lovelace" });
+
+    const copy = new Person(person.toJSON());
+
+    expect(copy.fullName).toBe("Ada Lovelace");
+  });
+
+  it("should drop virtual values from update payloads", async () => {
+    const person = new Person({ firstName: "Ada", lastName: "Lovelace" });
+    await person.save();
+
+    await person.update({ age: 36, score: 1 } as any);
+
+    const stored = (await person.docRef.get()).data();
+    expect(stored).toEqual({ firstName: "Ada", lastName: "Lovelace", age: 36 });
+  });
+
+  it("should report dirtiness through dependsOn", async () => {
+    const person = new Person({ firstName: "Ada", lastName: "Lovelace" });
+    await person.save();
+    const loaded = (await Person.findById(person.id!))!;
+
+    loaded.age = 36;
+    expect(loaded.isDirty("fullName")).toBe(false);
+
+    loaded.lastName = "Byron";
+    expect(loaded.isDirty("fullName")).toBe(true);
+    expect(loaded.getChanges()).not.toHaveProperty("fullName");
+  });
+});
@@ -0,0 +1,146 @@
+import { WatchChanges, WatchError } from "../src";
+import { Department, User, UserStatusEnum } from "./helpers/models";
+
+/** Collects handler deliveries and lets tests await the next one, which rejects on failures. */
+function collector<M>() {
+  const received: WatchChanges<M>[] = [];
+  let waiting: {
+    resolve: (changes: WatchChanges<M>) => void;
+    reject: (error: WatchError) => void;
+  } | null = null;
+  return {
+    received,
+    handler: (changes: WatchChanges<M>) => {
+      received.push(changes);
+      waiting?.resolve(changes);
+      waiting = null;
+    },
+    onError: (error: WatchError) => {
+      waiting?.reject(error);
+      waiting = null;
+    },
+    next: () =>
+      new Promise<WatchChanges<M>>((resolve, reject) => {
+        waiting = { resolve, reject };
+      }),
+  };
+}
+
+describe("BaseModel - Realtime listeners", () => {
+  it("should deliver added, modified and removed instances for a query", async () => {
+    const existing = new User({ name: "Watched", email: "w@test.com", age: 30, status: UserStatusEnum.ACTIVE });
+    await existing.save();
+
+    const events = collector<User>();
+    const initial = events.next();
+    const unsubscribe = User.watch(
+      (ref) => ref.where("age", ">=", 18),
+      events.handler,
+      { onError: events.onError }
+    );
+
+    const first = await initial;
+    expect(first.added).toHaveLength(1);
+    expect(first.added[0]).toBeInstanceOf(User);
+    expect(first.added[0].name).toBe("Watched");
+
+    const modifiedEvent = events.next();
+    await existing.update({ name: "Renamed" });
+    const modified = await modifiedEvent;
+    expect(modified.modified.map((u) => u.name)).toEqual(["Renamed"]);
+
+    const removedEvent = events.next();
+    await existing.delete();
+    const removed = await removedEvent;
+    expect(removed.removed).toHaveLength(1);
+    expect(removed.removed[0].name).toBe("Renamed");
+
+    unsubscribe();
+  });
+
+  it("should populate relations when requested", async () => {
+    const dept = new Department({ name: "Ops" });
+    await dept.save();
+    await new User({ name: "Pop", email: "p@test.com", department: dept.docRef }).save();
+
+    const events = collector<User>();
+    const initial = events.next();
+    const unsubscribe = User.watch(undefined, events.handler, {
+      populate: ["department"],
+      onError: events.onError,
+    });
+
+    const { added } = await initial;
+    expect(added[0].department).toBeInstanceOf(Department);
+    unsubscribe();
+  });
+
+  it("should watch a single document", async () => {
+    const user = new User({ name: "Solo", email: "solo@test.com" });
+    await user.save();
+
+    const events = collector<User>();
+    const initial = events.next();
+    const unsubscribe = user.watch(events.handler, { onError: events.onError });
+
+    expect((await initial).added[0].name).toBe("Solo");
+
+    const modifiedEvent = events.next();
+    await user.update({ age: 50 });
+    expect((await modifiedEvent).modified[0].age).toBe(50);
+
+    unsubscribe();
+  });
+
+  it("should surface handler failures as WatchError", async () => {
+    await new User({ name: "Boom", email: "boom@test.com" }).save();
+
+    const error = await new Promise<WatchError>((resolve) => {
+      const unsubscribe = User.watch(
+        undefined,
+        () => {
+          throw new Error("handler exploded");
+        },
+        {
+          onError: (err) => {
+            unsubscribe();
+            resolve(err);
+          },
+        }
+      );
+    });
+
+    expect(error).toBeInstanceOf(WatchError);
+    expect(error.modelName).toBe("User");
+    expect((error.cause as Error).message).toBe("handler exploded");
+  });
+
+  it("should keep delivering snapshots after a handler failure", async () => {
+    await new User({ name: "Flaky", email: "flaky@test.com" }).save();
+    const errors: WatchError[] = [];
+    const events = collector<User>();
+    let failed = false;
+
+    const initial = events.next();
+    const unsubscribe = User.watch(
+      undefined,
+      (changes) => {
+        events.handler(changes);
+        if (!failed) {
+          failed = true;
+          throw new Error("handler exploded");
+        }
+      },
+      { onError: (err) => errors.push(err) }
+    );
+    await initial;
+
+    const next = events.next();
+    await new User({ name: "After", email: "after@test.com" }).save();
+
+    expect((await next).added.map((u) => u.name)).toEqual(["After"]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(WatchError);
+    unsubscribe();
+  });
+});